@@ -39,7 +39,7 @@ export default merge(baseConfig, {
 
   mode: 'development',
 
-  target: 'electron-renderer',
+  target: 'web',
 
   entry: [
     'core-js',
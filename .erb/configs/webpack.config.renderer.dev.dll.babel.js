@@ -13,6 +13,15 @@ CheckNodeEnv('development');
 
 const dist = path.join(__dirname, '../dll');
 
+// Only used by the main process. The renderer is a web target
+// without Node's modules, see preload.js
+const mainProcessDependencies = [
+  'electron-debug',
+  'electron-log',
+  'electron-updater',
+  'source-map-support',
+];
+
 export default merge(baseConfig, {
   context: path.join(__dirname, '../..'),
 
@@ -20,7 +29,7 @@ export default merge(baseConfig, {
 
   mode: 'development',
 
-  target: 'electron-renderer',
+  target: 'web',
 
   externals: ['fsevents', 'crypto-browserify'],
 
@@ -30,7 +39,9 @@ export default merge(baseConfig, {
   module: require('./webpack.config.renderer.dev.babel').default.module,
 
   entry: {
-    renderer: Object.keys(dependencies || {}),
+    renderer: Object.keys(dependencies || {}).filter(
+      (dependency) => !mainProcessDependencies.includes(dependency)
+    ),
   },
 
   output: {
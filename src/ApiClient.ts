@@ -0,0 +1,227 @@
+/**
+ * Authenticated API client.
+ *
+ * Renderer class for calling the APIs of the user's account.
+ * The access token and the account's baseUri are read from the
+ * current session for each request. Only urls of the account's
+ * baseUri get the access token.
+ * Transient errors (5xx and 429) of the idempotent methods are
+ * retried with exponential backoff. POST and PATCH requests are only
+ * retried when the server asks for it: 429 or 503 with Retry-After.
+ * A 401 response means the session is no longer valid: the
+ * onUnauthorized callback is called so the user can login again.
+ */
+/* eslint-disable max-classes-per-file */
+import { log } from './app-api';
+
+export const sdkString = 'electron1';
+
+const defaultMaxRetries = 3;
+const defaultRetryDelay = 500; // ms, doubled for each retry
+const maxRetryDelay = 30000; // ms
+
+// The parts of the session that are used by the client
+export interface ApiSession {
+  readonly accessToken: string | null;
+  readonly baseUri: string | null;
+  readonly accountId: string | null;
+}
+
+export interface ApiClientOptions {
+  // Returns the current session
+  session: () => ApiSession;
+  // Called when the API rejects the access token
+  onUnauthorized: () => void;
+  maxRetries?: number;
+  retryDelay?: number;
+}
+
+export type ApiMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * The API request failed
+ */
+export class ApiError extends Error {
+  readonly status: number;
+
+  readonly body: unknown;
+
+  constructor(message: string, status: number, body: unknown = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isTransient(status: number): boolean {
+  return status === 429 || (status >= 500 && status <= 599);
+}
+
+/**
+ * Can the request be sent again?
+ * A POST or PATCH that failed with a 5xx may have been processed
+ */
+function isRetryable(method: ApiMethod, response: Response): boolean {
+  if (method !== 'POST' && method !== 'PATCH') {
+    return isTransient(response.status); // EARLY RETURN
+  }
+  return (
+    (response.status === 429 || response.status === 503) &&
+    response.headers.get('Retry-After') !== null
+  );
+}
+
+function origin(url: string): string | null {
+  try {
+    return new URL(url).origin;
+  } catch (e) {
+    return null;
+  }
+}
+
+async function responseBody(response: Response): Promise<unknown> {
+  if (response.status === 204) {
+    return null; // EARLY RETURN
+  }
+  const contentType = response.headers.get('Content-Type') || '';
+  return contentType.includes('json') ? response.json() : response.text();
+}
+
+class ApiClient {
+  options: ApiClientOptions;
+
+  constructor(options: ApiClientOptions) {
+    this.options = options;
+  }
+
+  /**
+   * The url for an API path
+   * @param path a path relative to the account's baseUri,
+   *             eg /restapi/v2.1/accounts/{accountId}/envelopes
+   *             {accountId} is replaced by the session's account id.
+   *             Absolute urls are used as is, but only urls of the
+   *             account's baseUri are accepted.
+   * @throws ApiError for an absolute url of another origin, since
+   *         the request would send the access token to it
+   */
+  url(path: string): string {
+    const { baseUri, accountId } = this.options.session();
+    if (!baseUri) {
+      throw new ApiError('There is no account. Please login', 0);
+    }
+    if (/^https?:\/\//i.test(path)) {
+      if (origin(path) !== origin(baseUri)) {
+        throw new ApiError(`${path} is not a url of the account's API`, 0);
+      }
+      return path; // EARLY RETURN
+    }
+    const accountPath = path.replace(/{accountId}/g, accountId || '');
+    return `${baseUri.replace(/\/+$/, '')}/${accountPath.replace(/^\/+/, '')}`;
+  }
+
+  /**
+   * How long to wait before retrying a request
+   * @param response the transient error response
+   * @param attempt the number of the retry, starting with 0
+   */
+  retryDelay(response: Response, attempt: number): number {
+    const retryAfter = parseInt(response.headers.get('Retry-After') || '', 10);
+    const delay = Number.isNaN(retryAfter)
+      ? (this.options.retryDelay || defaultRetryDelay) * 2 ** attempt
+      : retryAfter * 1000;
+    return Math.min(delay, maxRetryDelay);
+  }
+
+  /**
+   * Make an API request
+   * @param method the HTTP method
+   * @param path see url()
+   * @param body optional request body. Sent as JSON
+   * @returns the response body. JSON responses are parsed
+   * @throws ApiError if the request was not successful
+   */
+  async request<T = unknown>(
+    method: ApiMethod,
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    const { accessToken } = this.options.session();
+    if (!accessToken) {
+      throw new ApiError('You are not logged in', 401);
+    }
+    const url = this.url(path);
+    const headers = new Headers({
+      Authorization: `Bearer ${accessToken}`,
+      Accept: `application/json`,
+      'X-DocuSign-SDK': sdkString,
+    });
+    if (body !== undefined) {
+      headers.set('Content-Type', 'application/json');
+    }
+    const maxRetries =
+      this.options.maxRetries === undefined
+        ? defaultMaxRetries
+        : this.options.maxRetries;
+
+    let response: Response;
+    let attempt = 0;
+    for (;;) {
+      // eslint-disable-next-line no-await-in-loop
+      response = await fetch(url, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      if (!isRetryable(method, response) || attempt >= maxRetries) {
+        break;
+      }
+      const delay = this.retryDelay(response, attempt);
+      log.warn(
+        `API ${method} ${url}: ${response.status}. Retrying in ${delay}ms`
+      );
+      // eslint-disable-next-line no-await-in-loop
+      await sleep(delay);
+      attempt += 1;
+    }
+
+    const result = await responseBody(response);
+    if (response.status === 401) {
+      log.warn(`API ${method} ${url}: the access token was rejected`);
+      this.options.onUnauthorized();
+      throw new ApiError('Your session is no longer valid', 401, result);
+    }
+    if (!response.ok) {
+      const msg = `API ${method} ${url}: ${response.status} ${response.statusText}`;
+      log.error(msg);
+      throw new ApiError(msg, response.status, result);
+    }
+    return result as T;
+  }
+
+  get<T = unknown>(path: string): Promise<T> {
+    return this.request<T>('GET', path);
+  }
+
+  post<T = unknown>(path: string, body?: unknown): Promise<T> {
+    return this.request<T>('POST', path, body);
+  }
+
+  put<T = unknown>(path: string, body?: unknown): Promise<T> {
+    return this.request<T>('PUT', path, body);
+  }
+
+  patch<T = unknown>(path: string, body?: unknown): Promise<T> {
+    return this.request<T>('PATCH', path, body);
+  }
+
+  delete<T = unknown>(path: string): Promise<T> {
+    return this.request<T>('DELETE', path);
+  }
+}
+
+export default ApiClient;
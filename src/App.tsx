@@ -4,16 +4,40 @@ import {
   BrowserRouter as Router,
   Switch,
   Route,
+  Link,
+  Redirect,
+  RouteComponentProps,
 } from 'react-router-dom';
-import { ipcRenderer } from 'electron';
 import { ToastContainer, toast } from 'react-toastify';
 import icon from '../assets/icon.svg';
-import OAuthImplicit from './OAuthImplicit';
+import { log } from './app-api';
+import OAuthImplicit, { RefreshedTokens } from './OAuthImplicit';
+import OAuthPKCE from './OAuthPKCE';
+import { ISession } from './session-store';
+import SessionTimer from './SessionTimer';
+import { UserAccount, rememberedAccount, rememberAccount } from './accounts';
+import Settings from './Settings';
+import AuthEvents from './AuthEvents';
+import { clearDiscoveryCache } from './oidc-discovery';
+import ApiClient from './ApiClient';
+import DeepLinkListener from './DeepLinkListener';
+import {
+  AuthProvider,
+  AuthContextValue,
+  AuthSession,
+  OAuthHost,
+  OAuthResults,
+} from './AuthContext';
+import ProtectedRoute, { LoginRedirectState } from './ProtectedRoute';
+import SessionDetails from './SessionDetails';
+import { AuthState, AuthStatus, AuthCommand } from './auth-state';
 import './App.global.css';
 
 // state attributes for authentication results and state
 type AppState = {
   accessToken: string | null;
+  refreshToken: string | null;
+  idToken: string | null;
   expires: Date | null;
   name: string | null;
   email: string | null;
@@ -21,28 +45,58 @@ type AppState = {
   externalAccountId: string | null;
   accountName: string | null;
   baseUri: string | null;
+  accounts: UserAccount[];
+  minutesLeft: number | null;
   showHomePage: boolean;
+  showAccountPicker: boolean;
+  loginError: string | null;
+  // false until the session saved by a prior run was checked
+  sessionLoaded: boolean;
+  // The route to show after the login. See ProtectedRoute.tsx
+  returnTo: string | null;
 };
 
-interface OAuthResults {
-  accessToken: string | null;
-  expires: Date | null;
-  name: string | null;
-  email: string | null;
-  accountId: string | null;
-  externalAccountId: string | null;
-  accountName: string | null;
-  baseUri: string | null;
-};
+class App extends React.Component<unknown, AppState> implements OAuthHost {
+  /**
+   * Create the OAuth object for the active profile's authFlow setting
+   * @param app
+   */
+  static createOAuth(app: App): OAuthImplicit {
+    return OAuthImplicit.profile().authFlow === 'pkce'
+      ? new OAuthPKCE(app)
+      : new OAuthImplicit(app);
+  }
+
+  // Created when the active IdP profile was loaded. See start()
+  oAuth: OAuthImplicit | null = null;
+
+  unmounted = false;
+
+  // For calling the APIs of the user's account. See ApiClient.ts
+  apiClient: ApiClient;
+
+  sessionTimer: SessionTimer;
+
+  expiryToastId: React.ReactText | null = null;
 
-class App extends React.Component<unknown, AppState> {
-  oAuthImplicit: OAuthImplicit;
+  // The expired session's refresh token and user, kept for its
+  // renewal by "Login again". See sessionExpired
+  expiredSession: Omit<OAuthResults, 'accessToken' | 'expires'> | null = null;
+
+  unsubscribeUrlActions: (() => void) | null = null;
+
+  unsubscribeAuthCommands: (() => void) | null = null;
+
+  // The auth state last sent to the main process, as JSON
+  reportedAuthState: string | null = null;
 
   // constructor for the class
   constructor(props: unknown) {
     super(props);
     this.state = {
       accessToken: null,
+      refreshToken: null,
+      idToken: null,
       expires: null,
       name: null,
       email: null,
@@ -50,105 +104,754 @@ class App extends React.Component<unknown, AppState> {
       externalAccountId: null,
       accountName: null,
       baseUri: null,
+      accounts: [],
+      minutesLeft: null,
       showHomePage: true,
+      showAccountPicker: false,
+      loginError: null,
+      sessionLoaded: false,
+      returnTo: null,
     };
-    this.oAuthImplicit = new OAuthImplicit(this);
+    this.apiClient = new ApiClient({
+      session: () => this.state,
+      onUnauthorized: this.sessionRejected.bind(this),
+    });
+    this.sessionTimer = new SessionTimer({
+      onTick: (minutesLeft) => this.setState({ minutesLeft }),
+      onWarning: this.sessionWarning.bind(this),
+      onExpired: this.sessionExpired.bind(this),
+    });
     this.logout = this.logout.bind(this);
+    this.profileChanged = this.profileChanged.bind(this);
+    this.saveSession = this.saveSession.bind(this);
+    this.switchAccount = this.switchAccount.bind(this);
+    this.reauthenticate = this.reauthenticate.bind(this);
     this.HomePage = this.HomePage.bind(this);
+    this.authCommandListener = this.authCommandListener.bind(this);
+    this.login = this.login.bind(this);
     this.startAuthentication = this.startAuthentication.bind(this);
     this.cancelAuthentication = this.cancelAuthentication.bind(this);
+    this.dismissLoginError = this.dismissLoginError.bind(this);
   }
 
   componentDidMount() {
-    // subscribe to the url-action channel
-    ipcRenderer.on('url-action', this.oAuthImplicit.urlActionListener);
+    this.reportAuthState();
+    this.start();
+  }
+
+  componentDidUpdate() {
+    this.reportAuthState();
+    // The Redirect to the returnTo route was rendered
+    if (this.returnPending()) {
+      // eslint-disable-next-line react/no-did-update-set-state
+      this.setState({ returnTo: null });
+    }
   }
 
   componentWillUnmount() {
-    ipcRenderer.removeListener('url-action', this.oAuthImplicit.urlActionListener);
+    this.unmounted = true;
+    if (this.unsubscribeUrlActions) {
+      this.unsubscribeUrlActions();
+    }
+    if (this.unsubscribeAuthCommands) {
+      this.unsubscribeAuthCommands();
+    }
+    this.sessionTimer.stop();
+  }
+
+  /**
+   * Load the active IdP profile, then create the OAuth object,
+   * listen to the main process and restore the saved session.
+   * The Login button is shown after that.
+   */
+  async start() {
+    try {
+      await OAuthImplicit.loadProfile();
+    } catch (e) {
+      log.error(`Problem loading the IdP profile: ${e}`);
+      toast.error(`The IdP profile could not be loaded: ${e.message}`, {
+        autoClose: 10000,
+      });
+      return; // EARLY RETURN
+    }
+    if (this.unmounted) {
+      return; // EARLY RETURN
+    }
+    this.oAuth = App.createOAuth(this);
+    // subscribe to the url actions. The DeepLinkListener
+    // has already subscribed since it is a child component.
+    this.subscribeUrlActions();
+    window.appApi.urlActionsReady();
+    this.unsubscribeAuthCommands = window.appApi.onAuthCommand(
+      this.authCommandListener
+    );
+    window.appApi.authCommandsReady();
+    this.restoreSession();
+  }
+
+  /**
+   * The OAuth object. The controls that use it are shown
+   * after it was created. See start()
+   */
+  oAuthFlow(): OAuthImplicit {
+    if (!this.oAuth) {
+      throw new Error('The IdP profile was not loaded');
+    }
+    return this.oAuth;
+  }
+
+  /**
+   * Send the url actions to the current OAuth object
+   */
+  subscribeUrlActions() {
+    if (this.unsubscribeUrlActions) {
+      this.unsubscribeUrlActions();
+    }
+    this.unsubscribeUrlActions = window.appApi.onUrlAction(
+      this.oAuthFlow().urlActionListener
+    );
+  }
+
+  /**
+   * Listener for the main process's auth commands, eg from
+   * the tray icon's menu
+   */
+  authCommandListener(command: AuthCommand) {
+    log.info(`Auth command: ${command.name}`);
+    if (command.name === 'login') {
+      if (this.authStatus() === 'logged-out') {
+        this.login();
+      }
+    } else if (command.name === 'logout') {
+      if (this.authStatus() === 'logged-in') {
+        this.logout(false);
+      }
+    } else if (command.name === 'switch-account') {
+      this.switchAccount(command.accountId);
+    } else if (command.name === 'copy-access-token') {
+      this.copyAccessToken();
+    }
+  }
+
+  /**
+   * Development: copy the current session's access token to the
+   * clipboard, eg for testing the APIs with curl. See menu.ts
+   */
+  async copyAccessToken() {
+    const { accessToken } = this.state;
+    if (this.authStatus() !== 'logged-in' || !accessToken) {
+      log.warn('There is no session. The access token was not copied.');
+      return; // EARLY RETURN
+    }
+    try {
+      await navigator.clipboard.writeText(accessToken);
+      log.info('The access token was copied to the clipboard');
+    } catch (e) {
+      log.error(`Problem copying the access token: ${e}`);
+    }
+  }
+
+  /**
+   * Send the auth state to the main process, if it changed.
+   * The main process shows it in the tray. See auth-state.ts
+   */
+  reportAuthState() {
+    const { name, email, accountId, accounts, expires } = this.state;
+    const status = this.authStatus();
+    const loggedIn = status === 'logged-in';
+    const state: AuthState = {
+      status,
+      name: loggedIn ? name : null,
+      email: loggedIn ? email : null,
+      accountId: loggedIn ? accountId : null,
+      accounts: loggedIn
+        ? accounts.map((acc) => ({
+            accountId: acc.accountId,
+            accountName: acc.accountName,
+            externalAccountId: acc.externalAccountId,
+          }))
+        : [],
+      expires: loggedIn && expires ? expires.toISOString() : null,
+    };
+    const json = JSON.stringify(state);
+    if (json !== this.reportedAuthState) {
+      this.reportedAuthState = json;
+      window.appApi.setAuthState(state);
+    }
+  }
+
+  /**
+   * Start the login
+   * @param returnTo the route to show after the login
+   */
+  login(returnTo?: string | null) {
+    this.setState({ returnTo: returnTo || null });
+    this.startAuthentication();
   }
 
   startAuthentication() {
     this.clearAuth();
-    this.setState({showHomePage: false});
-    this.oAuthImplicit.startLogin();
+    this.setState({ showHomePage: false, loginError: null });
+    this.oAuthFlow()
+      .startLogin()
+      .catch((e) => {
+        log.error(`Problem starting the login: ${e}`);
+        this.setState({
+          showHomePage: true,
+          loginError: `The login could not be started: ${e.message}`,
+        });
+      });
   }
 
   cancelAuthentication() {
-    this.setState({showHomePage: true});
+    this.setState({ showHomePage: true, returnTo: null });
+    // Cancelling the renewal of a valid session keeps the session
+    if (this.authStatus() !== 'logged-in') {
+      this.clearAuth();
+    }
+    this.oAuthFlow().cancelLogin();
+  }
+
+  /**
+   * The IdP returned an error, eg the user did not grant consent.
+   * This method is called by the OAuthImplicit and OAuthPKCE classes
+   * @param error the OAuth error code
+   * @param description the error's description for the user
+   */
+  oAuthError(error: string, description: string) {
+    if (this.authStatus() === 'logged-in') {
+      // The renewal of a session that is still valid failed,
+      // eg with prompt=none or the loopback listener's login_timeout
+      this.setState({ showHomePage: true });
+      toast.warning(`Your session was not renewed: ${description}`, {
+        autoClose: 10000,
+      });
+      return; // EARLY RETURN
+    }
+    this.setState({
+      showHomePage: true,
+      loginError: `${description} (${error})`,
+    });
+  }
+
+  dismissLoginError() {
+    this.setState({ loginError: null, returnTo: null });
+  }
+
+  /**
+   * Called by the Settings page when a profile was selected or
+   * the active profile was edited.
+   * @param activeChanged true if a different profile was selected.
+   *        The session belongs to the prior IdP so it is cleared.
+   */
+  async profileChanged(activeChanged: boolean) {
+    if (this.oAuth) {
+      this.oAuth.cancelLogin();
+    }
+    if (activeChanged) {
+      this.clearAuth();
+    }
+    clearDiscoveryCache();
+    try {
+      await OAuthImplicit.loadProfile();
+    } catch (e) {
+      log.error(`Problem loading the IdP profile: ${e}`);
+      return; // EARLY RETURN
+    }
+    this.oAuth = App.createOAuth(this);
+    this.subscribeUrlActions();
+  }
+
+  /**
+   * Renew the session. With a refresh token (the PKCE flow) it is
+   * renewed without the user's browser. Otherwise a re-login is
+   * started with prompt=none: it opens the user's browser, but if the
+   * IdP's login session is still alive, the IdP redirects back at
+   * once without asking the user for anything.
+   */
+  async reauthenticate() {
+    this.dismissExpiryToast();
+    const { refreshToken } = this.state;
+    const expired = this.expiredSession;
+    let refreshed: RefreshedTokens | null = null;
+    try {
+      refreshed = await this.oAuthFlow().refreshSession(
+        expired ? expired.refreshToken : refreshToken
+      );
+    } catch (e) {
+      log.error(`Problem renewing the session: ${e}`);
+    }
+    this.expiredSession = null;
+    if (refreshed) {
+      this.setState(
+        expired ? { ...expired, ...refreshed } : refreshed,
+        this.saveSession
+      );
+      this.sessionTimer.start(refreshed.expires);
+      window.appApi.recordAuthEvent(
+        'completed',
+        'The session was renewed with the refresh token'
+      );
+      toast.success('Your session was renewed.', { autoClose: 3000 });
+      return; // EARLY RETURN
+    }
+    toast.info('Renewing your session via your browser...', {
+      autoClose: 5000,
+    });
+    this.setState({ showHomePage: false, loginError: null });
+    this.oAuthFlow()
+      .startLogin('none')
+      .catch((e) => {
+        log.error(`Problem starting the login: ${e}`);
+        this.setState({ showHomePage: true });
+        toast.error(`Your session could not be renewed: ${e.message}`, {
+          autoClose: 10000,
+        });
+      });
+  }
+
+  /**
+   * Called by the session timer before the session expires
+   * @param minutesLeft
+   */
+  sessionWarning(minutesLeft: number) {
+    this.dismissExpiryToast();
+    this.expiryToastId = toast.warning(
+      <div>
+        Your session will expire in {minutesLeft} minutes.
+        <button type="button" onClick={this.reauthenticate}>
+          Stay logged in
+        </button>
+      </div>,
+      { autoClose: false }
+    );
+  }
+
+  /**
+   * Called by the session timer when the session has expired
+   */
+  sessionExpired() {
+    window.appApi.recordAuthEvent('expired', 'The session expired');
+    const {
+      refreshToken,
+      idToken,
+      name,
+      email,
+      accountId,
+      externalAccountId,
+      accountName,
+      baseUri,
+      accounts,
+    } = this.state;
+    this.clearAuth();
+    this.expiredSession = refreshToken
+      ? {
+          refreshToken,
+          idToken,
+          name,
+          email,
+          accountId,
+          externalAccountId,
+          accountName,
+          baseUri,
+          accounts,
+        }
+      : null;
+    this.dismissExpiryToast();
+    this.expiryToastId = toast.error(
+      <div>
+        Your session has expired.
+        <button type="button" onClick={this.reauthenticate}>
+          Login again
+        </button>
+      </div>,
+      { autoClose: false }
+    );
+  }
+
+  /**
+   * Called by the API client when an API rejected the access token,
+   * eg the token was revoked
+   */
+  sessionRejected() {
+    window.appApi.recordAuthEvent(
+      'session-rejected',
+      'An API rejected the access token'
+    );
     this.clearAuth();
-    this.oAuthImplicit.closeWindow();
+    this.dismissExpiryToast();
+    this.expiryToastId = toast.error(
+      <div>
+        Your session is no longer valid.
+        <button type="button" onClick={this.startAuthentication}>
+          Login again
+        </button>
+      </div>,
+      { autoClose: false }
+    );
+  }
+
+  dismissExpiryToast() {
+    if (this.expiryToastId !== null) {
+      toast.dismiss(this.expiryToastId);
+      this.expiryToastId = null;
+    }
   }
 
   /**
-   * This method clears this app's authentication information.
-   * But there may still be an active login session cookie
-   * from the IdP. Your IdP may have an API method for clearing
-   * the login session.
+   * This method clears this app's authentication information,
+   * including the stored copy, and the Electron session storage.
+   * The tokens are revoked if the IdP profile supports it.
+   * See the OAuthImplicit.logout method.
+   * @param everywhere also end the user's login session with the IdP
+   *        (in the user's browser), so the next login asks for the
+   *        user's credentials. Use it on shared machines.
    */
-  logout() {
+  async logout(everywhere: boolean) {
+    const { accessToken, refreshToken, idToken } = this.state;
     this.clearAuth();
-    toast.success('You have logged out.', { autoClose: 1000 });
+    const ended = await this.oAuthFlow().logout(
+      { accessToken, refreshToken, idToken },
+      everywhere
+    );
+    window.appApi.recordAuthEvent(
+      'logout',
+      everywhere
+        ? `Logged out everywhere${
+            ended ? '' : '. The IdP session was not ended'
+          }`
+        : 'Logged out of this app'
+    );
+    if (ended) {
+      toast.success('You have logged out.', { autoClose: 1000 });
+    } else {
+      toast.warning(
+        'You have logged out of this app. The IdP does not support ending ' +
+          'its login session: close your browser to log out everywhere.',
+        { autoClose: 10000 }
+      );
+    }
+  }
+
+  /**
+   * Restore the session that was saved by the main process
+   * during a prior run of the app, if it is still valid.
+   */
+  async restoreSession() {
+    const session = await window.appApi.loadSession();
+    const { accessToken } = this.state;
+    if (!session || accessToken) {
+      this.setState({ sessionLoaded: true });
+      return;
+    }
+    this.setState({
+      sessionLoaded: true,
+      accessToken: session.accessToken,
+      refreshToken: session.refreshToken || null,
+      idToken: session.idToken || null,
+      expires: new Date(session.expires),
+      name: session.name,
+      email: session.email,
+      accountId: session.accountId,
+      externalAccountId: session.externalAccountId,
+      accountName: session.accountName,
+      baseUri: session.baseUri,
+      accounts: session.accounts || [],
+    });
+    this.sessionTimer.start(new Date(session.expires));
+  }
+
+  /**
+   * Ask the main process to store the current session
+   */
+  saveSession() {
+    const {
+      accessToken,
+      refreshToken,
+      idToken,
+      expires,
+      name,
+      email,
+      accountId,
+      externalAccountId,
+      accountName,
+      baseUri,
+      accounts,
+    } = this.state;
+    if (!accessToken || !expires) {
+      return;
+    }
+    const session: ISession = {
+      accessToken,
+      refreshToken,
+      idToken,
+      expires: expires.toISOString(),
+      name,
+      email,
+      accountId,
+      externalAccountId,
+      accountName,
+      baseUri,
+      accounts,
+    };
+    window.appApi.saveSession(session);
   }
 
+  /**
+   * Switch to one of the user's other accounts.
+   * No new login is needed.
+   * @param accountId the chosen account
+   */
+  switchAccount(accountId: string) {
+    const { accounts, email } = this.state;
+    const account = accounts.find((acc) => acc.accountId === accountId);
+    if (!account) {
+      return;
+    }
+    if (email) {
+      rememberAccount(email, accountId);
+    }
+    this.setState(
+      {
+        accountId: account.accountId,
+        externalAccountId: account.externalAccountId,
+        accountName: account.accountName,
+        baseUri: account.baseUri,
+        showAccountPicker: false,
+      },
+      this.saveSession
+    );
+  }
+
+  /**
+   * Clears the authentication information, including the
+   * copy stored by the main process.
+   */
   clearAuth() {
+    window.appApi.clearSession();
+    this.expiredSession = null;
+    this.sessionTimer.stop();
     this.setState({
+      minutesLeft: null,
       accessToken: null,
+      refreshToken: null,
+      idToken: null,
       expires: null,
       accountId: null,
       externalAccountId: null,
       accountName: null,
       baseUri: null,
+      accounts: [],
       name: null,
       email: null,
+      showAccountPicker: false,
     });
   }
 
   /**
    * Process the oauth results.
-   * This method is called by the OAuthImplicit class
+   * This method is called by the OAuthImplicit and OAuthPKCE classes
    * @param results
    */
   oAuthResults(results: OAuthResults) {
-    this.setState({accessToken: results.accessToken,
-      expires: results.expires,
-      name: results.name,
-      email: results.email,
-      accountId: results.accountId,
-      externalAccountId: results.externalAccountId,
-      accountName: results.accountName,
-      baseUri: results.baseUri,
-      showHomePage: true});
+    // Use the account the user last chose, if it's still available.
+    // Otherwise a user with several accounts is asked to choose one.
+    const remembered = results.email
+      ? rememberedAccount(results.email, results.accounts)
+      : undefined;
+    this.setState(
+      {
+        accessToken: results.accessToken,
+        refreshToken: results.refreshToken,
+        idToken: results.idToken,
+        expires: results.expires,
+        name: results.name,
+        email: results.email,
+        accountId: remembered ? remembered.accountId : results.accountId,
+        externalAccountId: remembered
+          ? remembered.externalAccountId
+          : results.externalAccountId,
+        accountName: remembered ? remembered.accountName : results.accountName,
+        baseUri: remembered ? remembered.baseUri : results.baseUri,
+        accounts: results.accounts,
+        showHomePage: true,
+        showAccountPicker: !remembered && results.accounts.length > 1,
+      },
+      this.saveSession
+    );
+    this.dismissExpiryToast();
+    if (results.expires) {
+      this.sessionTimer.start(results.expires);
+    }
+
+    window.appApi.recordAuthEvent(
+      'completed',
+      `Logged in as ${results.email || results.name || 'an unknown user'}`
+    );
+    toast.success(
+      `Welcome ${results.name || results.email || ''}, you are now logged in`
+    );
+  }
+
+  /**
+   * True when the login is complete and the user should be
+   * returned to the route they asked for
+   */
+  returnPending(): boolean {
+    const { accessToken, returnTo, showAccountPicker } = this.state;
+    return !!accessToken && !!returnTo && !showAccountPicker;
+  }
+
+  authStatus(): AuthStatus {
+    const { accessToken, showHomePage, sessionLoaded } = this.state;
+    if (accessToken) {
+      return 'logged-in'; // EARLY RETURN
+    }
+    if (!showHomePage) {
+      return 'logging-in'; // EARLY RETURN
+    }
+    return sessionLoaded ? 'logged-out' : 'loading';
+  }
+
+  session(): AuthSession | null {
+    const {
+      accessToken,
+      expires,
+      name,
+      email,
+      accountId,
+      externalAccountId,
+      accountName,
+      baseUri,
+      accounts,
+      minutesLeft,
+    } = this.state;
+    if (!accessToken) {
+      return null; // EARLY RETURN
+    }
+    return {
+      accessToken,
+      expires,
+      name,
+      email,
+      accountId,
+      externalAccountId,
+      accountName,
+      baseUri,
+      accounts,
+      minutesLeft,
+    };
+  }
 
-    toast.success(`Welcome ${results.name}, you are now logged in`);
+  /**
+   * The value of the AuthProvider. See AuthContext.tsx
+   */
+  authContext(): AuthContextValue {
+    return {
+      session: this.session(),
+      status: this.authStatus(),
+      apiClient: this.apiClient,
+      login: this.login,
+      logout: this.logout,
+      switchAccount: this.switchAccount,
+    };
   }
 
-  HomePage() {
+  HomePage({ location }: RouteComponentProps) {
+    const { showAccountPicker, showHomePage, loginError } = this.state;
+    // Set when a ProtectedRoute sent the user here to login
+    const redirect = location.state as LoginRedirectState | undefined;
     return (
       <>
         <ToastContainer />
-        {this.state.showHomePage ? this.Hello() : this.Login()}
+        {showAccountPicker ? this.AccountPicker() : null}
+        {showHomePage && loginError ? this.LoginError() : null}
+        {!showAccountPicker && showHomePage && !loginError
+          ? this.Hello(redirect ? redirect.from : null)
+          : null}
+        {showHomePage ? null : this.Login()}
       </>
-    )
+    );
   }
 
   UserInformationBlock() {
-    if (this.state.accessToken) {
-      return (
-        <div className="accountInfo">
-          <p>{this.state.name}<span style={{marginLeft: '2em'}} className="a" onClick={this.logout}>logout</span></p>
-          <p>{this.state.accountName} ({this.state.externalAccountId})</p>
-        </div>
-      )
-    } else {
+    const {
+      accessToken,
+      name,
+      accountId,
+      accountName,
+      externalAccountId,
+      accounts,
+      minutesLeft,
+    } = this.state;
+    if (!accessToken) {
       return null;
     }
+    return (
+      <div className="accountInfo">
+        <p>
+          {name}
+          <span
+            style={{ marginLeft: '2em' }}
+            className="a"
+            role="button"
+            tabIndex={0}
+            onClick={() => this.logout(false)}
+            onKeyPress={() => this.logout(false)}
+          >
+            log out of this app
+          </span>
+          <span
+            style={{ marginLeft: '1em' }}
+            className="a"
+            role="button"
+            tabIndex={0}
+            onClick={() => this.logout(true)}
+            onKeyPress={() => this.logout(true)}
+          >
+            log out everywhere
+          </span>
+        </p>
+        {accounts.length > 1 ? (
+          <p>
+            <select
+              aria-label="Account"
+              value={accountId || ''}
+              onChange={(e) => this.switchAccount(e.target.value)}
+            >
+              {accounts.map((acc) => (
+                <option key={acc.accountId} value={acc.accountId}>
+                  {acc.accountName} ({acc.externalAccountId})
+                </option>
+              ))}
+            </select>
+          </p>
+        ) : null}
+        {accounts.length === 1 && accountName ? (
+          <p>
+            {accountName} ({externalAccountId})
+          </p>
+        ) : null}
+        {minutesLeft === null ? null : (
+          <p>Session expires in {minutesLeft} min</p>
+        )}
+      </div>
+    );
   }
 
-  Hello() {
+  /**
+   * The home page
+   * @param returnTo the page the user asked for, if the user must
+   *        login to see it
+   */
+  Hello(returnTo: string | null) {
+    const { accessToken } = this.state;
     return (
       <div>
         {this.UserInformationBlock()}
+        {returnTo && !accessToken ? (
+          <p>Please login to see that page.</p>
+        ) : null}
         <div className="Hello">
           <img width="200px" alt="icon" src={icon} />
         </div>
@@ -178,19 +881,64 @@ class App extends React.Component<unknown, AppState> {
               Donate
             </button>
           </a>
-          {this.state.accessToken ? null :
-            <button type="button" onClick={this.startAuthentication}>
+          {this.authStatus() !== 'logged-out' ? null : (
+            <button type="button" onClick={() => this.login(returnTo)}>
               <span role="img" aria-label="login">
-              🔆
+                🔆
               </span>
               Login
             </button>
-          }
+          )}
+          <Link to="/settings">
+            <button type="button">
+              <span role="img" aria-label="settings">
+                ⚙️
+              </span>
+              Settings
+            </button>
+          </Link>
+          {accessToken ? (
+            <Link to="/session">
+              <button type="button">
+                <span role="img" aria-label="session">
+                  🔑
+                </span>
+                Session
+              </button>
+            </Link>
+          ) : null}
+          <Link to="/auth-events">
+            <button type="button">
+              <span role="img" aria-label="events">
+                📜
+              </span>
+              Auth events
+            </button>
+          </Link>
         </div>
       </div>
     );
   }
 
+  AccountPicker() {
+    const { accounts } = this.state;
+    return (
+      <div>
+        <h2>Please choose an account</h2>
+        {accounts.map((acc) => (
+          <p key={acc.accountId}>
+            <button
+              type="button"
+              onClick={() => this.switchAccount(acc.accountId)}
+            >
+              {acc.accountName} ({acc.externalAccountId})
+            </button>
+          </p>
+        ))}
+      </div>
+    );
+  }
+
   Login() {
     return (
       <>
@@ -203,14 +951,45 @@ class App extends React.Component<unknown, AppState> {
     );
   }
 
+  LoginError() {
+    const { loginError } = this.state;
+    return (
+      <div className="loginError">
+        <h2>The login was not successful</h2>
+        <p>{loginError}</p>
+        <button type="button" onClick={this.startAuthentication}>
+          Retry
+        </button>
+        <button type="button" onClick={this.dismissLoginError}>
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
   render() {
     // Remember to add other page routes BEFORE the route for /
+    // Deep-link actions show these routes. See deep-link-actions.ts
+    // Pages that need a logged in user use a ProtectedRoute
+    const { returnTo } = this.state;
     return (
-      <Router>
-        <Switch>
-          <Route path="/" component={this.HomePage} />
-        </Switch>
-      </Router>
+      <AuthProvider value={this.authContext()}>
+        <Router>
+          <DeepLinkListener />
+          {returnTo && this.returnPending() ? <Redirect to={returnTo} /> : null}
+          <Switch>
+            <Route
+              path="/settings"
+              render={() => <Settings onProfileChange={this.profileChanged} />}
+            />
+            <Route path="/auth-events" component={AuthEvents} />
+            <ProtectedRoute path="/session">
+              <SessionDetails />
+            </ProtectedRoute>
+            <Route path="/" component={this.HomePage} />
+          </Switch>
+        </Router>
+      </AuthProvider>
     );
   }
 }
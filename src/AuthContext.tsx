@@ -0,0 +1,89 @@
+/**
+ * The authentication context for the app's pages.
+ *
+ * The App component owns the session and provides it with the
+ * AuthProvider. Pages and components use the useAuth hook to get
+ * the session, its status, and the login and logout functions,
+ * instead of receiving them as props.
+ * See ProtectedRoute.tsx for pages that need a logged in user.
+ */
+import React, { createContext, useContext } from 'react';
+import { UserAccount } from './accounts';
+import ApiClient from './ApiClient';
+import { AuthStatus } from './auth-state';
+
+// The results of a login, sent by the OAuthImplicit and
+// OAuthPKCE classes to their host
+export interface OAuthResults {
+  accessToken: string | null;
+  // The Authorization Code grant's refresh token, if the IdP sent one
+  refreshToken: string | null;
+  // The id_token (OIDC mode). The id_token_hint of the logout
+  idToken: string | null;
+  expires: Date | null;
+  name: string | null;
+  email: string | null;
+  accountId: string | null;
+  externalAccountId: string | null;
+  accountName: string | null;
+  baseUri: string | null;
+  accounts: UserAccount[];
+}
+
+/**
+ * The receiver of the OAuth classes' results. Implemented by App.
+ */
+export interface OAuthHost {
+  oAuthResults(results: OAuthResults): void;
+  oAuthError(error: string, description: string): void;
+}
+
+// The logged in user's session. The refresh token and the
+// id_token are only used by the App
+export interface AuthSession
+  extends Omit<OAuthResults, 'refreshToken' | 'idToken'> {
+  readonly accessToken: string;
+  readonly minutesLeft: number | null;
+}
+
+export interface AuthContextValue {
+  readonly session: AuthSession | null;
+  readonly status: AuthStatus;
+  // For calling the APIs of the user's account. See ApiClient.ts
+  readonly apiClient: ApiClient;
+  /**
+   * Start the login
+   * @param returnTo the route to show after the login
+   */
+  login(returnTo?: string | null): void;
+  /**
+   * Log out. See App.logout
+   * @param everywhere also end the user's login session with the IdP
+   */
+  logout(everywhere: boolean): Promise<void>;
+  switchAccount(accountId: string): void;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({
+  value,
+  children,
+}: {
+  value: AuthContextValue;
+  children: React.ReactNode;
+}) {
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+/**
+ * The session, its status and the login and logout functions.
+ * Must be used inside of the AuthProvider.
+ */
+export function useAuth(): AuthContextValue {
+  const value = useContext(AuthContext);
+  if (!value) {
+    throw new Error('useAuth must be used inside of the AuthProvider');
+  }
+  return value;
+}
@@ -0,0 +1,158 @@
+/**
+ * The Authentication events page.
+ * Shows the main process's authentication event journal as a
+ * timeline, newest first. The events can be filtered by type and
+ * text, and exported to a JSON file. See auth-journal.ts
+ */
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ToastContainer, toast } from 'react-toastify';
+import { AuthEvent, AuthEventType } from './auth-journal';
+
+type AuthEventsState = {
+  events: AuthEvent[];
+  typeFilter: AuthEventType | '';
+  textFilter: string;
+};
+
+const eventLabels: Record<AuthEventType, string> = {
+  'login-started': 'Login started',
+  'callback-received': 'Callback received',
+  rejected: 'Rejected',
+  completed: 'Login completed',
+  logout: 'Logout',
+  expired: 'Expired',
+  'session-rejected': 'Session rejected',
+};
+
+class AuthEvents extends React.Component<unknown, AuthEventsState> {
+  constructor(props: unknown) {
+    super(props);
+    this.state = {
+      events: [],
+      typeFilter: '',
+      textFilter: '',
+    };
+    this.loadEvents = this.loadEvents.bind(this);
+    this.clearEvents = this.clearEvents.bind(this);
+    this.exportEvents = this.exportEvents.bind(this);
+  }
+
+  componentDidMount() {
+    this.loadEvents();
+  }
+
+  async loadEvents() {
+    const events = await window.appApi.authEvents();
+    this.setState({ events });
+  }
+
+  async clearEvents() {
+    await window.appApi.clearAuthEvents();
+    await this.loadEvents();
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  async exportEvents() {
+    const { filePath, error } = await window.appApi.exportAuthEvents();
+    if (error) {
+      toast.error(`The events could not be saved: ${error}`, {
+        autoClose: 10000,
+      });
+    } else if (filePath) {
+      toast.success(`The events were saved to ${filePath}`, {
+        autoClose: 3000,
+      });
+    }
+  }
+
+  /**
+   * The events that match the filters, newest first
+   */
+  filteredEvents(): AuthEvent[] {
+    const { events, typeFilter, textFilter } = this.state;
+    const text = textFilter.toLowerCase();
+    return events
+      .filter(
+        (event) =>
+          (!typeFilter || event.type === typeFilter) &&
+          (!text ||
+            event.reason.toLowerCase().includes(text) ||
+            event.profile.toLowerCase().includes(text))
+      )
+      .reverse();
+  }
+
+  render() {
+    const { events, typeFilter, textFilter } = this.state;
+    const filtered = this.filteredEvents();
+    return (
+      <div className="settings">
+        <ToastContainer />
+        <h2>Authentication events</h2>
+        <p>
+          <select
+            aria-label="Event type"
+            value={typeFilter}
+            onChange={(e) =>
+              this.setState({
+                typeFilter: e.target.value as AuthEventType | '',
+              })
+            }
+          >
+            <option value="">All events</option>
+            {Object.entries(eventLabels).map(([type, label]) => (
+              <option key={type} value={type}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <input
+            aria-label="Search"
+            type="text"
+            placeholder="Search"
+            value={textFilter}
+            onChange={(e) => this.setState({ textFilter: e.target.value })}
+          />
+        </p>
+        <table>
+          <tbody>
+            {filtered.map((event, i) => (
+              // The events have no ids. The rows have no state.
+              // eslint-disable-next-line react/no-array-index-key
+              <tr key={`${event.time}-${i}`}>
+                <td>{new Date(event.time).toLocaleString()}</td>
+                <td>{eventLabels[event.type] || event.type}</td>
+                <td>{event.profile}</td>
+                <td>{event.reason}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {filtered.length === 0 ? <p>No events</p> : null}
+        <button type="button" onClick={this.loadEvents}>
+          Refresh
+        </button>
+        <button
+          type="button"
+          onClick={this.exportEvents}
+          disabled={events.length === 0}
+        >
+          Export JSON
+        </button>
+        <button
+          type="button"
+          onClick={this.clearEvents}
+          disabled={events.length === 0}
+        >
+          Clear
+        </button>
+        <Link to="/">
+          <button type="button">Done</button>
+        </Link>
+      </div>
+    );
+  }
+}
+
+export default AuthEvents;
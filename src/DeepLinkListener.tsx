@@ -0,0 +1,44 @@
+/**
+ * Shows the route of a deep-link action.
+ * The deep-link actions are registered and matched by the
+ * main process. See deep-link-actions.ts
+ * Must be rendered inside of the Router.
+ */
+import React from 'react';
+import { withRouter, RouteComponentProps } from 'react-router-dom';
+import { log } from './app-api';
+import { URLActionType } from './parse-app-url';
+
+class DeepLinkListener extends React.Component<RouteComponentProps> {
+  unsubscribe: (() => void) | null = null;
+
+  constructor(props: RouteComponentProps) {
+    super(props);
+    this.urlActionListener = this.urlActionListener.bind(this);
+  }
+
+  componentDidMount() {
+    this.unsubscribe = window.appApi.onUrlAction(this.urlActionListener);
+  }
+
+  componentWillUnmount() {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+    }
+  }
+
+  urlActionListener(action: URLActionType) {
+    const { history } = this.props;
+    if (action.name !== 'deep-link' || !('route' in action)) {
+      return;
+    }
+    log.info(`Deep-link action ${action.action}: ${action.route}`);
+    history.push(action.route);
+  }
+
+  render() {
+    return null;
+  }
+}
+
+export default withRouter(DeepLinkListener);
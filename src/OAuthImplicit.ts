@@ -1,18 +1,68 @@
 /**
  * This file's functions are used for OAuthImplicit grant and
  * related authentication operations.
+ * The OAuthPKCE class extends this class for the
+ * Authorization Code grant with PKCE.
  */
 /* eslint-disable react/destructuring-assignment */
-import log from 'electron-log';
-import { IpcRendererEvent } from 'electron/renderer';
+import { ReactText } from 'react';
 import { toast } from 'react-toastify';
-import { URLActionType, IOAuthAction } from './parse-app-url';
-// eslint-disable-next-line import/no-cycle
-import App from './App';
-import config from './config';
+import { log } from './app-api';
+import {
+  URLActionType,
+  IOAuthAction,
+  IOAuthErrorAction,
+} from './parse-app-url';
+import { UserAccount } from './accounts';
+import { OAuthHost } from './AuthContext';
+import { IdPProfile } from './profile-store';
+import { idpEndpoints } from './oidc-discovery';
+import { validateIdToken, IdTokenClaims } from './id-token';
+import {
+  userInfoAdapter,
+  Claims,
+  IUserInfoAdapter,
+  UserDetails,
+} from './userinfo-adapters';
+import { revokeToken, endSessionUrl, TokenTypeHint } from './idp-logout';
+import { PendingAuthorization } from './pending-authorizations';
+import { sdkString } from './ApiClient';
 
 const expirationBuffer = 10 * 60; // 10 minute buffer
-const sdkString = 'electron1';
+
+// The session's tokens, to be revoked at logout.
+// The id_token is the end_session request's id_token_hint.
+export interface LogoutTokens {
+  readonly accessToken: string | null;
+  readonly refreshToken: string | null;
+  readonly idToken: string | null;
+}
+
+// The tokens of a session that was renewed without a login
+export interface RefreshedTokens {
+  readonly accessToken: string;
+  readonly refreshToken: string | null;
+  readonly expires: Date;
+}
+
+// Messages for the standard error codes, used if the IdP
+// does not send an error_description
+// See https://tools.ietf.org/html/rfc6749#section-4.2.2.1
+const oauthErrorMessages: { [error: string]: string } = {
+  access_denied: 'Access was not granted to this app.',
+  invalid_scope: 'The requested scopes are not allowed.',
+  unauthorized_client: 'This app is not allowed to login this way.',
+  unsupported_response_type: 'The IdP does not support this login flow.',
+  invalid_request: 'The login request was not valid.',
+  server_error: 'The IdP had a problem.',
+  temporarily_unavailable: 'The IdP is temporarily unavailable.',
+  login_required: 'Please login.',
+  consent_required: 'Please grant consent to this app.',
+  interaction_required: 'Please login.',
+};
+
+// The active IdP profile. See OAuthImplicit.loadProfile
+let activeProfile: IdPProfile | null = null;
 
 class OAuthImplicit {
   //
@@ -36,13 +86,33 @@ class OAuthImplicit {
     return Array.from(arr, dec2hex).join('');
   }
 
+  /**
+   * Load the active IdP profile from the main process.
+   * The App loads it at startup and when the profiles were changed.
+   */
+  static async loadProfile(): Promise<IdPProfile> {
+    activeProfile = await window.appApi.activeProfile();
+    return activeProfile;
+  }
+
+  /**
+   * The active IdP profile. See loadProfile
+   */
+  static profile(): IdPProfile {
+    if (!activeProfile) {
+      throw new Error('The IdP profile was not loaded');
+    }
+    return activeProfile;
+  }
+
   /**
    * A relatively common OAuth API endpoint for obtaining information
    * on the user associated with the accessToken
    * @param accessToken string
    */
   static async fetchUserInfo(accessToken: string) {
-    return fetch(`${config.idpUrl}/oauth/userinfo`, {
+    const { userinfo } = await idpEndpoints(OAuthImplicit.profile());
+    return fetch(userinfo, {
       headers: new Headers({
         Authorization: `Bearer ${accessToken}`,
         Accept: `application/json`,
@@ -51,19 +121,80 @@ class OAuthImplicit {
     });
   }
 
+  /**
+   * Compute the redirect url for the IdP to use
+   * @param returnPath the path for our app's url
+   * @param intermediateUrl optional url of an intermediate redirect page
+   */
+  static computeRedirectUrl(
+    returnPath: string,
+    intermediateUrl: string | undefined
+  ): string {
+    const profile = OAuthImplicit.profile();
+    // One slash (no authority) is recommended by RFC
+    // But some IdP's don't support it.
+    const slashes = profile.schemeSlashCount === 1 ? '/' : '//';
+    // Our app's redirect url:
+    const directRedirectUrl = `${profile.schemeName}:${slashes}${returnPath}`;
+    // Possibly use an intermediate redirect page:
+    return intermediateUrl && intermediateUrl.length > 2
+      ? intermediateUrl
+      : directRedirectUrl;
+  }
+
+  /**
+   * Determine the redirect url for a login.
+   * With the profile's redirectMode 'loopback' the main process
+   * starts a temporary loopback listener for the redirect.
+   * @param returnPath the path for our app's url
+   * @param intermediateUrl optional url of an intermediate redirect page
+   */
+  static async redirectUrlFor(
+    returnPath: string,
+    intermediateUrl: string | undefined
+  ): Promise<string> {
+    if (OAuthImplicit.profile().redirectMode === 'loopback') {
+      return window.appApi.startLoopback(returnPath);
+    }
+    return OAuthImplicit.computeRedirectUrl(returnPath, intermediateUrl);
+  }
+
+  /**
+   * The scopes to request. In OIDC mode the openid scope is required.
+   * @param scopes the scopes setting
+   * @param profile the IdP profile
+   */
+  static scopesFor(scopes: string, profile: IdPProfile): string {
+    if (
+      profile.oidcMode !== 'on' ||
+      /(^|%20|\s)openid(%20|\s|$)/.test(scopes)
+    ) {
+      return scopes;
+    }
+    return scopes ? `openid%20${scopes}` : 'openid';
+  }
+
+  /**
+   * When the session expires: expirationBuffer before
+   * the access token
+   * @param expiresIn the token's lifetime in seconds
+   */
+  static expiresAt(expiresIn: number): Date {
+    const expires = new Date();
+    expires.setTime(expires.getTime() + (expiresIn - expirationBuffer) * 1000);
+    return expires;
+  }
+
   //
   // Instance properties
   //
-  app: App;
-
-  loginWindow: Window | null = null;
-
-  oauthState: string | null = null;
+  // The receiver of the results, the App
+  app: OAuthHost;
 
   //
   // constructor for the class
   //
-  constructor(app: App) {
+  constructor(app: OAuthHost) {
     this.app = app;
     this.urlActionListener = this.urlActionListener.bind(this);
   }
@@ -75,72 +206,254 @@ class OAuthImplicit {
   /**
    * Listener for url-action messages
    */
-  async urlActionListener(_event: IpcRendererEvent, action: URLActionType) {
-    if (action.name !== config.implicitReturnPath) {
+  async urlActionListener(action: URLActionType) {
+    const { implicitReturnPath } = OAuthImplicit.profile();
+    if (
+      action.name === 'oauth-error' &&
+      'returnPath' in action &&
+      action.returnPath === implicitReturnPath
+    ) {
+      await this.loginFailed(action);
+      return;
+    }
+    if (action.name !== implicitReturnPath) {
       return; // IGNORE this message
     }
-    this.closeWindow();
     const oauthAction = action as IOAuthAction; // assertion
-    if (this.oauthState !== oauthAction.state) {
-      log.error('OAuth Implicit grant state mismatch!');
-      toast.error(
-        'The OAuth response failed the security check.\nPlease retry.',
-        { autoClose: 10000 }
-      );
+    const authorization = await this.checkState(oauthAction.state);
+    if (!authorization) {
       return;
     }
     const toastId = toast.success('Completing the login process...', {
       autoClose: 7000,
     });
-    const { accessToken } = oauthAction;
+    const profile = OAuthImplicit.profile();
+    let idTokenClaims: IdTokenClaims | null = null;
+    if (profile.oidcMode === 'on') {
+      idTokenClaims = await this.checkIdToken(
+        oauthAction.idToken,
+        profile.implicitClientId,
+        authorization.nonce,
+        oauthAction.accessToken,
+        toastId
+      );
+      if (!idTokenClaims) {
+        return;
+      }
+    }
+    await this.completeLogin(
+      oauthAction.accessToken,
+      oauthAction.expiresIn,
+      toastId,
+      idTokenClaims,
+      idTokenClaims ? oauthAction.idToken || null : null
+    );
+  }
 
-    // calculate expires to be expirationBuffer sooner
-    const expires = new Date();
-    expires.setTime(
-      expires.getTime() + (oauthAction.expiresIn - expirationBuffer) * 1000
+  /**
+   * The IdP returned an error instead of the tokens,
+   * eg the user did not grant consent.
+   * The App shows the error to the user.
+   */
+  async loginFailed(errorAction: IOAuthErrorAction) {
+    if (!(await this.checkState(errorAction.state))) {
+      return;
+    }
+    const { error, errorDescription } = errorAction;
+    log.error(`OAuth error response: ${error} ${errorDescription || ''}`);
+    window.appApi.recordAuthEvent(
+      'rejected',
+      `The IdP returned an error: ${error} ${errorDescription || ''}`
     );
+    this.app.oAuthError(
+      error,
+      errorDescription ||
+        oauthErrorMessages[error] ||
+        `The login was not successful: ${error}`
+    );
+  }
 
-    // call /oauth/userinfo for general user info
-    // This API method is common for many IdP systems.
-    // But the exact format of the response tends to vary.
-    // The following works for the DocuSign IdP.
-    let userInfoResponse;
+  /**
+   * Check the state value returned by the IdP against the
+   * pending login requests. Each request can only be used once.
+   * Reports a problem to the user. (The main process logs it.)
+   * @param state the state value from the OAuth response
+   * @returns the login request or null if the state is not valid
+   */
+  // eslint-disable-next-line class-methods-use-this
+  async checkState(state: string): Promise<PendingAuthorization | null> {
+    const result = await window.appApi.consumeAuthorization(state);
+    if (result.status === 'ok') {
+      if (result.authorization.profileId === OAuthImplicit.profile().id) {
+        return result.authorization; // EARLY RETURN
+      }
+      log.error('OAuth response for a login with another IdP profile');
+      window.appApi.recordAuthEvent(
+        'rejected',
+        'OAuth response for a login with another IdP profile'
+      );
+      toast.error(
+        'The login was started with a different IdP profile.\nPlease login again.',
+        { autoClose: 10000 }
+      );
+      return null; // EARLY RETURN
+    }
+    const messages = {
+      expired: 'The login took too long.\nPlease login again.',
+      reused: 'This login response was already used.\nPlease login again.',
+      cancelled: 'The login was cancelled.',
+      unknown: 'The OAuth response failed the security check.\nPlease retry.',
+    };
+    toast.error(messages[result.status], { autoClose: 10000 });
+    return null;
+  }
+
+  /**
+   * Validate the id_token. Reports a problem to the user.
+   * @param idToken the id_token from the IdP
+   * @param clientId the expected audience
+   * @param nonce the login request's nonce
+   * @param accessToken the Implicit grant's access token, for the
+   *        at_hash check. null for the code flow.
+   * @param toastId the id of the "Completing the login" toast
+   * @returns the token's claims or null if the token is not valid
+   */
+  // eslint-disable-next-line class-methods-use-this
+  async checkIdToken(
+    idToken: string | undefined,
+    clientId: string,
+    nonce: string | null,
+    accessToken: string | null,
+    toastId: ReactText
+  ): Promise<IdTokenClaims | null> {
     try {
-      userInfoResponse = await OAuthImplicit.fetchUserInfo(accessToken);
+      if (!idToken) {
+        throw new Error('No id_token was received');
+      }
+      const { issuer, jwksUri } = await idpEndpoints(OAuthImplicit.profile());
+      return await validateIdToken(idToken, {
+        issuer,
+        clientId,
+        nonce,
+        jwksUri,
+        accessToken,
+      });
     } catch (e) {
-      const msg = `Problem while completing login.\nPlease retry.\nError: ${e.toString()}`;
+      log.error(`OIDC id_token validation failed: ${e.message}`);
+      window.appApi.recordAuthEvent(
+        'rejected',
+        `OIDC id_token validation failed: ${e.message}`
+      );
+      toast.dismiss(toastId);
+      toast.error(
+        'The OAuth response failed the security check.\nPlease retry.',
+        { autoClose: 10000 }
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Complete the login by fetching the user's information
+   * and then sending the results to the App
+   * @param accessToken the access token from the IdP
+   * @param expiresIn the token's lifetime in seconds
+   * @param toastId the id of the "Completing the login" toast
+   * @param idTokenClaims the id_token's claims (OIDC mode)
+   * @param idToken the validated id_token (OIDC mode)
+   * @param refreshToken the refresh token (Authorization Code grant)
+   */
+  async completeLogin(
+    accessToken: string,
+    expiresIn: number,
+    toastId: ReactText,
+    idTokenClaims: IdTokenClaims | null,
+    idToken: string | null,
+    refreshToken: string | null = null
+  ) {
+    const expires = OAuthImplicit.expiresAt(expiresIn);
+
+    // The profile's userinfo adapter maps the IdP's information
+    // about the user to the App's format
+    let adapter: IUserInfoAdapter;
+    try {
+      adapter = userInfoAdapter(OAuthImplicit.profile().userInfoAdapter);
+    } catch (e) {
+      const msg = `Problem while completing login.\nError: ${e.message}`;
       log.error(msg);
+      window.appApi.recordAuthEvent('rejected', e.message);
+      toast.dismiss(toastId);
       toast.error(msg, { autoClose: 10000 });
       return;
     }
-    if (!userInfoResponse || !userInfoResponse.ok) {
-      const msg = `Problem while completing login.\nPlease retry.\nError: ${userInfoResponse.statusText}`;
+
+    // call /oauth/userinfo for general user info
+    // This API method is common for many IdP systems.
+    // But the exact format of the response tends to vary.
+    let userInfo: Claims | null = null;
+    if (adapter.usesUserInfo) {
+      let userInfoResponse;
+      try {
+        userInfoResponse = await OAuthImplicit.fetchUserInfo(accessToken);
+      } catch (e) {
+        const msg = `Problem while completing login.\nPlease retry.\nError: ${e.toString()}`;
+        log.error(msg);
+        window.appApi.recordAuthEvent(
+          'rejected',
+          `The userinfo request failed: ${e.toString()}`
+        );
+        toast.dismiss(toastId);
+        toast.error(msg, { autoClose: 10000 });
+        return;
+      }
+      if (!userInfoResponse || !userInfoResponse.ok) {
+        const msg = `Problem while completing login.\nPlease retry.\nError: ${userInfoResponse.statusText}`;
+        log.error(msg);
+        window.appApi.recordAuthEvent(
+          'rejected',
+          `The userinfo request failed: ${userInfoResponse.statusText}`
+        );
+        toast.dismiss(toastId);
+        toast.error(msg, { autoClose: 10000 });
+        return;
+      }
+      userInfo = await userInfoResponse.json();
+    }
+
+    let details: UserDetails;
+    try {
+      details = adapter.toUserDetails(userInfo, idTokenClaims);
+    } catch (e) {
+      const msg = `Problem while completing login.\nThe ${adapter.name} userinfo adapter failed.\nError: ${e.message}`;
       log.error(msg);
+      window.appApi.recordAuthEvent(
+        'rejected',
+        `The ${adapter.name} userinfo adapter failed: ${e.message}`
+      );
+      toast.dismiss(toastId);
       toast.error(msg, { autoClose: 10000 });
       return;
     }
-    const userInfo = await userInfoResponse.json();
-    type Account = {
-      account_id: string;
-      account_name: string;
-      base_uri: string;
-      is_default: boolean;
-    };
-    const defaultAccount: Account = userInfo.accounts.filter(
-      (acc: Account) => acc.is_default
-    )[0];
-    const externalAccountId: string = defaultAccount.account_id.slice(-10);
+    const { accounts } = details;
+    // Not all users have a default account, or any account
+    const defaultAccount: UserAccount | undefined =
+      accounts.find((acc) => acc.isDefault) || accounts[0];
 
     toast.dismiss(toastId);
     this.app.oAuthResults({
       accessToken,
+      refreshToken,
+      idToken,
       expires,
-      name: userInfo.name,
-      email: userInfo.email,
-      accountId: defaultAccount.account_id,
-      externalAccountId,
-      accountName: defaultAccount.account_name,
-      baseUri: defaultAccount.base_uri,
+      name: details.name,
+      email: details.email,
+      accountId: defaultAccount ? defaultAccount.accountId : null,
+      externalAccountId: defaultAccount
+        ? defaultAccount.externalAccountId
+        : null,
+      accountName: defaultAccount ? defaultAccount.accountName : null,
+      baseUri: defaultAccount ? defaultAccount.baseUri : null,
+      accounts,
     });
   }
 
@@ -151,43 +464,125 @@ class OAuthImplicit {
    * Per RFC 8252 Sec 4, a regular browser should be used.
    * No type of embedded browser should be used.
    * See https://tools.ietf.org/html/rfc8252#section-4
+   * @param prompt optional OIDC prompt value. Eg, 'none' to
+   *               re-login without a visible prompt
    */
-  startLogin() {
+  // eslint-disable-next-line class-methods-use-this
+  async startLogin(prompt?: string) {
+    const profile = OAuthImplicit.profile();
+    const { authorization } = await idpEndpoints(profile);
     const oauthState = OAuthImplicit.generateId();
-    this.oauthState = oauthState;
-    // One slash (no authority) is recommended by RFC
-    // But some IdP's don't support it.
-    const slashes = config.schemeSlashCount === 1 ? '/' : '//';
-    // Our app's redirect url:
-    const directRedirectUrl = `${config.schemeName}:${slashes}${config.implicitReturnPath}`;
-    // Possibly use an intermediate redirect page:
-    const redirectUrl = `redirect_uri=${
-      config.implicitRedirectUrl && config.implicitRedirectUrl.length > 2
-        ? config.implicitRedirectUrl
-        : directRedirectUrl
-    }`;
+    const oidc = profile.oidcMode === 'on';
+    const nonce = oidc ? OAuthImplicit.generateId() : null;
+    const redirectUrl = await OAuthImplicit.redirectUrlFor(
+      profile.implicitReturnPath,
+      profile.implicitRedirectUrl
+    );
+    await window.appApi.addAuthorization({
+      state: oauthState,
+      nonce,
+      codeVerifier: null,
+      redirectUrl,
+    });
     const url =
-      `${config.idpUrl}/oauth/auth?` +
-      `response_type=token&` +
-      `scope=${config.implicitScopes}&` +
-      `client_id=${config.implicitClientId}&` +
-      `state=${oauthState}&${redirectUrl}`;
+      `${authorization}?` +
+      `response_type=${oidc ? 'id_token%20token' : 'token'}&` +
+      `scope=${OAuthImplicit.scopesFor(profile.implicitScopes, profile)}&` +
+      `client_id=${profile.implicitClientId}&` +
+      `state=${oauthState}&redirect_uri=${redirectUrl}` +
+      `${nonce ? `&nonce=${nonce}` : ''}` +
+      `${prompt ? `&prompt=${prompt}` : ''}`;
+    // The main process opens the url in the user's browser
+    window.appApi.startLogin(url);
+  }
+
+  /**
+   * Renew the session without the user's browser.
+   * The Implicit grant has no refresh token, so the session
+   * can only be renewed with a login.
+   * @param _refreshToken the session's refresh token, if any
+   * @returns the new tokens, or null if a login is needed
+   */
+  // eslint-disable-next-line class-methods-use-this
+  async refreshSession(
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    _refreshToken: string | null
+  ): Promise<RefreshedTokens | null> {
+    return null;
+  }
+
+  /**
+   * Cancel the login that is in progress
+   */
+  // eslint-disable-next-line class-methods-use-this
+  cancelLogin() {
+    window.appApi.cancelLogin();
+  }
+
+  /**
+   * The client id of this login flow
+   */
+  // eslint-disable-next-line class-methods-use-this
+  clientId(): string {
+    return OAuthImplicit.profile().implicitClientId;
+  }
 
-    this.loginWindow = window.open(url, 'oauth_authentication', '');
-    if (this.loginWindow) {
-      this.loginWindow.focus();
+  /**
+   * Revoke a token if the profile's logoutRevocation setting is on
+   * @param token the token to be revoked
+   * @param tokenTypeHint the type of the token
+   */
+  async revoke(token: string, tokenTypeHint: TokenTypeHint) {
+    const profile = OAuthImplicit.profile();
+    if (profile.logoutRevocation !== 'on') {
+      return; // EARLY RETURN
     }
+    const { revocation } = await idpEndpoints(profile);
+    if (!revocation) {
+      log.warn('logoutRevocation is on but the IdP has no revocation endpoint');
+      return; // EARLY RETURN
+    }
+    await revokeToken(revocation, token, tokenTypeHint, this.clientId());
   }
 
   /**
-   * (Attempt) to close the browser window used for the OAuth authentication
-   * Works with Chrome and most browsers since we opened the window.
+   * Logout with the IdP, as supported by the profile's
+   * logoutRevocation and logoutEndSession settings.
+   * The App has already cleared its session.
+   * The refresh token is revoked too, so it can't be used
+   * for new access tokens.
+   * @param tokens the session's tokens, if any
+   * @param everywhere also end the user's login session with the IdP,
+   *                   so the next login asks for the user's credentials
+   * @returns false if everywhere was requested but the IdP's
+   *          login session could not be ended
    */
-  closeWindow() {
-    if (this.loginWindow) {
-      this.loginWindow.close();
-      this.loginWindow = null;
+  async logout(tokens: LogoutTokens, everywhere: boolean) {
+    if (tokens.refreshToken) {
+      await this.revoke(tokens.refreshToken, 'refresh_token');
+    }
+    if (tokens.accessToken) {
+      await this.revoke(tokens.accessToken, 'access_token');
+    }
+    await window.appApi.clearStorage(everywhere);
+    if (!everywhere) {
+      return true; // EARLY RETURN
+    }
+    const profile = OAuthImplicit.profile();
+    if (profile.logoutEndSession !== 'on') {
+      return false; // EARLY RETURN
     }
+    const { endSession } = await idpEndpoints(profile);
+    if (!endSession) {
+      log.warn(
+        'logoutEndSession is on but the IdP has no end_session endpoint'
+      );
+      return false; // EARLY RETURN
+    }
+    window.appApi.endSession(
+      endSessionUrl(endSession, this.clientId(), tokens.idToken)
+    );
+    return true;
   }
 }
 
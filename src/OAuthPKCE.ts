@@ -0,0 +1,249 @@
+/**
+ * This file's functions are used for the OAuth Authorization Code
+ * grant with PKCE (RFC 7636).
+ * See https://tools.ietf.org/html/rfc7636
+ *
+ * The user information and the results for the App are handled
+ * by the OAuthImplicit class.
+ */
+import { toast } from 'react-toastify';
+import { log } from './app-api';
+import { URLActionType, IOAuthCodeAction } from './parse-app-url';
+import OAuthImplicit, { RefreshedTokens } from './OAuthImplicit';
+import { idpEndpoints } from './oidc-discovery';
+import { IdTokenClaims } from './id-token';
+import { PendingAuthorization } from './pending-authorizations';
+
+// Response from the IdP's token endpoint
+type TokenResponse = {
+  access_token: string;
+  token_type: string;
+  refresh_token?: string;
+  id_token?: string; // OIDC mode
+  expires_in: number;
+};
+
+class OAuthPKCE extends OAuthImplicit {
+  //
+  // Static methods
+  //
+  /**
+   * Base64url encoding (no padding) per RFC 7636 Appendix A
+   * @param buffer the bytes to be encoded
+   */
+  static base64UrlEncode(buffer: ArrayBuffer): string {
+    const str = String.fromCharCode(...Array.from(new Uint8Array(buffer)));
+    return window
+      .btoa(str)
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+  }
+
+  /**
+   * Compute the S256 code_challenge for a code_verifier
+   * @param codeVerifier string
+   */
+  static async computeCodeChallenge(codeVerifier: string): Promise<string> {
+    const digest = await window.crypto.subtle.digest(
+      'SHA-256',
+      new TextEncoder().encode(codeVerifier)
+    );
+    return OAuthPKCE.base64UrlEncode(digest);
+  }
+
+  //
+  // Instance methods
+  //
+
+  /**
+   * Listener for url-action messages
+   */
+  async urlActionListener(action: URLActionType) {
+    const { pkceReturnPath } = OAuthPKCE.profile();
+    if (
+      action.name === 'oauth-error' &&
+      'returnPath' in action &&
+      action.returnPath === pkceReturnPath
+    ) {
+      await this.loginFailed(action);
+      return;
+    }
+    if (action.name !== pkceReturnPath) {
+      return; // IGNORE this message
+    }
+    const codeAction = action as IOAuthCodeAction; // assertion
+    const authorization = await this.checkState(codeAction.state);
+    if (!authorization) {
+      return;
+    }
+    const toastId = toast.success('Completing the login process...', {
+      autoClose: 7000,
+    });
+
+    let tokens: TokenResponse;
+    try {
+      tokens = await this.exchangeCode(codeAction.code, authorization);
+    } catch (e) {
+      const msg = `Problem while completing login.\nPlease retry.\nError: ${e.toString()}`;
+      log.error(msg);
+      window.appApi.recordAuthEvent(
+        'rejected',
+        `The code exchange failed: ${e.toString()}`
+      );
+      toast.dismiss(toastId);
+      toast.error(msg, { autoClose: 10000 });
+      return;
+    }
+    const profile = OAuthPKCE.profile();
+    let idTokenClaims: IdTokenClaims | null = null;
+    if (profile.oidcMode === 'on') {
+      idTokenClaims = await this.checkIdToken(
+        tokens.id_token,
+        this.clientId(),
+        authorization.nonce,
+        null,
+        toastId
+      );
+      if (!idTokenClaims) {
+        return;
+      }
+    }
+    await this.completeLogin(
+      tokens.access_token,
+      tokens.expires_in,
+      toastId,
+      idTokenClaims,
+      idTokenClaims ? tokens.id_token || null : null,
+      tokens.refresh_token || null
+    );
+  }
+
+  /**
+   * Exchange the authorization code for the tokens
+   * at the IdP's token endpoint.
+   * The login request's code_verifier is used once: the request
+   * was consumed by checkState.
+   * @param code the authorization code from the IdP
+   * @param authorization the login request
+   */
+  async exchangeCode(
+    code: string,
+    authorization: PendingAuthorization
+  ): Promise<TokenResponse> {
+    if (!authorization.codeVerifier) {
+      throw new Error('The login request has no code_verifier');
+    }
+    return this.tokenRequest(
+      new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        code_verifier: authorization.codeVerifier,
+        client_id: this.clientId(),
+        redirect_uri: authorization.redirectUrl,
+      })
+    );
+  }
+
+  /**
+   * Renew the session with the refresh token (RFC 6749 sec 6).
+   * No login, so the user's browser is not used.
+   * @param refreshToken the session's refresh token, if any
+   * @returns the new tokens, or null if a login is needed
+   */
+  async refreshSession(
+    refreshToken: string | null
+  ): Promise<RefreshedTokens | null> {
+    if (!refreshToken) {
+      return null; // EARLY RETURN
+    }
+    let tokens: TokenResponse;
+    try {
+      tokens = await this.tokenRequest(
+        new URLSearchParams({
+          grant_type: 'refresh_token',
+          refresh_token: refreshToken,
+          client_id: this.clientId(),
+        })
+      );
+    } catch (e) {
+      log.warn(`The refresh token was not accepted: ${e.toString()}`);
+      return null; // EARLY RETURN
+    }
+    return {
+      accessToken: tokens.access_token,
+      // The IdP may rotate the refresh token
+      refreshToken: tokens.refresh_token || refreshToken,
+      expires: OAuthPKCE.expiresAt(tokens.expires_in),
+    };
+  }
+
+  /**
+   * A request to the IdP's token endpoint
+   * @param body the request's parameters
+   */
+  // eslint-disable-next-line class-methods-use-this
+  async tokenRequest(body: URLSearchParams): Promise<TokenResponse> {
+    const { token } = await idpEndpoints(OAuthPKCE.profile());
+    const response = await fetch(token, {
+      method: 'POST',
+      headers: new Headers({
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: `application/json`,
+      }),
+      body,
+    });
+    if (!response.ok) {
+      throw new Error(response.statusText);
+    }
+    return response.json();
+  }
+
+  /**
+   * Start the login flow by computing the Authorization Code grant URL
+   * with its PKCE code_challenge and opening a regular browser
+   * window with that URL for the user.
+   * @param prompt optional OIDC prompt value
+   */
+  async startLogin(prompt?: string) {
+    const profile = OAuthPKCE.profile();
+    const { authorization } = await idpEndpoints(profile);
+    const oauthState = OAuthPKCE.generateId();
+    const nonce = profile.oidcMode === 'on' ? OAuthPKCE.generateId() : null;
+    // RFC 7636 sec 4.1: 43 - 128 characters
+    const codeVerifier = OAuthPKCE.generateId(64);
+    const codeChallenge = await OAuthPKCE.computeCodeChallenge(codeVerifier);
+    const redirectUrl = await OAuthPKCE.redirectUrlFor(
+      profile.pkceReturnPath,
+      profile.pkceRedirectUrl
+    );
+    await window.appApi.addAuthorization({
+      state: oauthState,
+      nonce,
+      codeVerifier,
+      redirectUrl,
+    });
+    const url =
+      `${authorization}?` +
+      `response_type=code&` +
+      `scope=${OAuthPKCE.scopesFor(profile.pkceScopes, profile)}&` +
+      `client_id=${this.clientId()}&` +
+      `state=${oauthState}&` +
+      `code_challenge=${codeChallenge}&` +
+      `code_challenge_method=S256&` +
+      `redirect_uri=${redirectUrl}` +
+      `${nonce ? `&nonce=${nonce}` : ''}` +
+      `${prompt ? `&prompt=${prompt}` : ''}`;
+    window.appApi.startLogin(url);
+  }
+
+  /**
+   * The client id of this login flow
+   */
+  // eslint-disable-next-line class-methods-use-this
+  clientId(): string {
+    return OAuthPKCE.profile().pkceClientId;
+  }
+}
+
+export default OAuthPKCE;
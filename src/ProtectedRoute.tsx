@@ -0,0 +1,39 @@
+/**
+ * A route for the pages that need a logged in user.
+ * A logged out user is sent to the home page to login. After the
+ * login, the App shows the page that the user asked for.
+ * Must be rendered inside of the Router and the AuthProvider.
+ */
+import React from 'react';
+import { Route, Redirect } from 'react-router-dom';
+import { useAuth } from './AuthContext';
+
+// The location state of the redirect to the home page
+export type LoginRedirectState = { from: string };
+
+export default function ProtectedRoute({
+  path,
+  children,
+}: {
+  path: string;
+  children: React.ReactNode;
+}) {
+  const { status } = useAuth();
+  return (
+    <Route
+      path={path}
+      render={({ location }) => {
+        if (status === 'loading') {
+          return null; // EARLY RETURN
+        }
+        if (status === 'logged-in') {
+          return children; // EARLY RETURN
+        }
+        const state: LoginRedirectState = {
+          from: `${location.pathname}${location.search}`,
+        };
+        return <Redirect to={{ pathname: '/', state }} />;
+      }}
+    />
+  );
+}
@@ -0,0 +1,53 @@
+/**
+ * The Session details page.
+ * Shows the logged in user's session. A protected route: see
+ * ProtectedRoute.tsx. The access token is not shown.
+ */
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from './AuthContext';
+
+export default function SessionDetails() {
+  const { session, logout } = useAuth();
+  if (!session) {
+    return null; // EARLY RETURN
+  }
+  const rows: [string, string | null][] = [
+    ['Name', session.name],
+    ['Email', session.email],
+    [
+      'Account',
+      session.accountName
+        ? `${session.accountName} (${session.externalAccountId})`
+        : null,
+    ],
+    ['Account id', session.accountId],
+    ['Base uri', session.baseUri],
+    ['Expires', session.expires ? session.expires.toLocaleString() : null],
+    [
+      'Expires in',
+      session.minutesLeft === null ? null : `${session.minutesLeft} min`,
+    ],
+  ];
+  return (
+    <div className="settings">
+      <h2>Session details</h2>
+      <table>
+        <tbody>
+          {rows.map(([label, value]) => (
+            <tr key={label}>
+              <td>{label}</td>
+              <td>{value || '-'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button type="button" onClick={() => logout(false)}>
+        Log out
+      </button>
+      <Link to="/">
+        <button type="button">Done</button>
+      </Link>
+    </div>
+  );
+}
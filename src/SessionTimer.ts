@@ -0,0 +1,104 @@
+/**
+ * Session timer for the access token's lifetime.
+ * Used by the App to count down to the token's expiration,
+ * to warn the user before the expiration, and to end the
+ * session when the token has expired.
+ */
+import setLongTimeout from './long-timeout';
+
+const warningLead = 5 * 60; // warn 5 minutes before expiration
+const tickInterval = 60; // update the countdown every minute
+
+type SessionTimerCallbacks = {
+  // Called each tickInterval with the number of minutes remaining
+  onTick: (minutesLeft: number) => void;
+  // Called once, warningLead seconds before the expiration
+  onWarning: (minutesLeft: number) => void;
+  // Called once, when the session has expired
+  onExpired: () => void;
+};
+
+class SessionTimer {
+  callbacks: SessionTimerCallbacks;
+
+  expires: Date | null = null;
+
+  // Cancel the pending warning and expiry. See long-timeout.ts
+  cancelWarning: (() => void) | null = null;
+
+  cancelExpired: (() => void) | null = null;
+
+  tickTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(callbacks: SessionTimerCallbacks) {
+    this.callbacks = callbacks;
+    this.tick = this.tick.bind(this);
+  }
+
+  /**
+   * The number of whole minutes until the expiration
+   */
+  minutesLeft(): number {
+    if (!this.expires) {
+      return 0;
+    }
+    return Math.max(
+      0,
+      Math.ceil((this.expires.getTime() - Date.now()) / (60 * 1000))
+    );
+  }
+
+  /**
+   * Start (or restart) the timer for a session
+   * @param expires when the session's access token expires
+   */
+  start(expires: Date) {
+    this.stop();
+    this.expires = expires;
+    const msLeft = expires.getTime() - Date.now();
+    if (msLeft <= 0) {
+      this.callbacks.onExpired();
+      return;
+    }
+    const msToWarning = msLeft - warningLead * 1000;
+    if (msToWarning > 0) {
+      this.cancelWarning = setLongTimeout(
+        () => this.callbacks.onWarning(this.minutesLeft()),
+        msToWarning
+      );
+    } else {
+      this.callbacks.onWarning(this.minutesLeft());
+    }
+    this.cancelExpired = setLongTimeout(() => {
+      this.stop();
+      this.callbacks.onExpired();
+    }, msLeft);
+    this.tickTimer = setInterval(this.tick, tickInterval * 1000);
+    this.tick();
+  }
+
+  /**
+   * Stop the timer. No callbacks will be called.
+   */
+  stop() {
+    if (this.cancelWarning) {
+      this.cancelWarning();
+      this.cancelWarning = null;
+    }
+    if (this.cancelExpired) {
+      this.cancelExpired();
+      this.cancelExpired = null;
+    }
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+    this.expires = null;
+  }
+
+  tick() {
+    this.callbacks.onTick(this.minutesLeft());
+  }
+}
+
+export default SessionTimer;
@@ -0,0 +1,355 @@
+/**
+ * The Settings page for the identity provider (IdP) profiles.
+ * Profiles can be created, edited, deleted and selected.
+ * The profiles are stored by the main process.
+ * Also the user's preferences. See preferences.ts
+ */
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ToastContainer, toast } from 'react-toastify';
+import { IdPProfile, IProfiles } from './profile-store';
+import { Preferences } from './preferences';
+import { ProtocolStatus } from './linux-protocol';
+import { userInfoAdapterNames } from './userinfo-adapters';
+
+type SettingsProps = {
+  // Called when the active profile was changed or edited
+  onProfileChange: (activeChanged: boolean) => void;
+};
+
+type SettingsState = {
+  activeId: string;
+  // The Default profile is created from the config settings
+  defaultId: string;
+  profiles: IdPProfile[];
+  editing: IdPProfile | null;
+  protocols: ProtocolStatus[];
+  preferences: Preferences | null;
+};
+
+type ProfileField = {
+  key: keyof IdPProfile;
+  label: string;
+  options?: string[];
+};
+
+// The editable profile settings. See README_OAuth.md
+const profileFields: ProfileField[] = [
+  { key: 'name', label: 'Profile name' },
+  { key: 'idpUrl', label: 'IdP url' },
+  { key: 'authFlow', label: 'OAuth flow', options: ['implicit', 'pkce'] },
+  { key: 'implicitClientId', label: 'Implicit client id' },
+  { key: 'implicitScopes', label: 'Implicit scopes' },
+  { key: 'implicitReturnPath', label: 'Implicit return path' },
+  { key: 'implicitRedirectUrl', label: 'Implicit intermediate page url' },
+  { key: 'pkceClientId', label: 'PKCE client id' },
+  { key: 'pkceScopes', label: 'PKCE scopes' },
+  { key: 'pkceReturnPath', label: 'PKCE return path' },
+  { key: 'pkceRedirectUrl', label: 'PKCE intermediate page url' },
+  { key: 'redirectMode', label: 'Redirect', options: ['scheme', 'loopback'] },
+  { key: 'oidcMode', label: 'OIDC id_token', options: ['off', 'on'] },
+  {
+    key: 'userInfoAdapter',
+    label: 'Userinfo adapter',
+    options: userInfoAdapterNames(),
+  },
+  {
+    key: 'logoutRevocation',
+    label: 'Logout: revoke tokens',
+    options: ['off', 'on'],
+  },
+  {
+    key: 'logoutEndSession',
+    label: 'Logout: end IdP session',
+    options: ['off', 'on'],
+  },
+  { key: 'schemeName', label: 'Scheme name' },
+  { key: 'schemeSlashCount', label: 'Scheme slashes', options: ['1', '2'] },
+  { key: 'authorizationEndpoint', label: 'Authorization endpoint' },
+  { key: 'tokenEndpoint', label: 'Token endpoint' },
+  { key: 'userinfoEndpoint', label: 'Userinfo endpoint' },
+  { key: 'revocationEndpoint', label: 'Revocation endpoint' },
+  { key: 'endSessionEndpoint', label: 'End session endpoint' },
+];
+
+class Settings extends React.Component<SettingsProps, SettingsState> {
+  constructor(props: SettingsProps) {
+    super(props);
+    this.state = {
+      activeId: '',
+      defaultId: '',
+      profiles: [],
+      editing: null,
+      protocols: [],
+      preferences: null,
+    };
+    this.newProfile = this.newProfile.bind(this);
+    this.saveProfile = this.saveProfile.bind(this);
+    this.cancelEdit = this.cancelEdit.bind(this);
+  }
+
+  componentDidMount() {
+    this.loadProfiles();
+    this.loadPreferences();
+  }
+
+  async loadPreferences() {
+    const preferences = await window.appApi.getPreferences();
+    this.setState({ preferences });
+  }
+
+  async updatePreference(key: keyof Preferences, value: string) {
+    const { preferences } = this.state;
+    if (!preferences) {
+      return;
+    }
+    this.setState({
+      preferences: await window.appApi.savePreferences({
+        ...preferences,
+        [key]: value,
+      }),
+    });
+    toast.success('The preference was saved.', { autoClose: 2000 });
+  }
+
+  async loadProfiles() {
+    const {
+      activeId,
+      defaultId,
+      profiles,
+    }: IProfiles = await window.appApi.getProfiles();
+    const protocols = await window.appApi.protocolStatus();
+    this.setState({ activeId, defaultId, profiles, protocols });
+  }
+
+  async selectProfile(id: string) {
+    const { onProfileChange } = this.props;
+    await window.appApi.selectProfile(id);
+    await this.loadProfiles();
+    onProfileChange(true);
+    toast.success('The profile will be used for the next login.', {
+      autoClose: 3000,
+    });
+  }
+
+  async deleteProfile(id: string) {
+    const { activeId } = this.state;
+    const { onProfileChange } = this.props;
+    await window.appApi.deleteProfile(id);
+    await this.loadProfiles();
+    if (id === activeId) {
+      onProfileChange(true);
+    }
+  }
+
+  newProfile() {
+    const { activeId, profiles } = this.state;
+    const active = profiles.find((p) => p.id === activeId) || profiles[0];
+    this.setState({ editing: { ...active, id: '', name: 'New profile' } });
+  }
+
+  editProfile(profile: IdPProfile) {
+    this.setState({ editing: { ...profile } });
+  }
+
+  cancelEdit() {
+    this.setState({ editing: null });
+  }
+
+  async saveProfile() {
+    const { activeId, editing } = this.state;
+    const { onProfileChange } = this.props;
+    if (!editing) {
+      return;
+    }
+    const { errors } = await window.appApi.saveProfile(editing);
+    if (errors.length > 0) {
+      toast.error(`The profile was not saved.\n${errors.join('\n')}`, {
+        autoClose: 10000,
+      });
+      return;
+    }
+    this.setState({ editing: null });
+    await this.loadProfiles();
+    if (editing.id === activeId) {
+      onProfileChange(false);
+    }
+    toast.success('The profile was saved.', { autoClose: 2000 });
+  }
+
+  updateField(key: keyof IdPProfile, value: string) {
+    const { editing } = this.state;
+    if (!editing) {
+      return;
+    }
+    this.setState({
+      editing: {
+        ...editing,
+        [key]: key === 'schemeSlashCount' ? parseInt(value, 10) : value,
+      },
+    });
+  }
+
+  ProfileList() {
+    const { activeId, defaultId, profiles, protocols } = this.state;
+    return (
+      <>
+        <h2>Identity provider profiles</h2>
+        <table>
+          <tbody>
+            {profiles.map((profile) => (
+              <tr key={profile.id}>
+                <td>
+                  {profile.name}
+                  {profile.id === activeId ? ' (active)' : null}
+                  {profile.id === defaultId ? ' (from the config)' : null}
+                </td>
+                <td>{profile.idpUrl}</td>
+                <td>
+                  {profile.id === activeId ? null : (
+                    <button
+                      type="button"
+                      onClick={() => this.selectProfile(profile.id)}
+                    >
+                      Use
+                    </button>
+                  )}
+                  {profile.id === defaultId ? null : (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => this.editProfile(profile)}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => this.deleteProfile(profile.id)}
+                      >
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button type="button" onClick={this.newProfile}>
+          New profile
+        </button>
+        <Link to="/">
+          <button type="button">Done</button>
+        </Link>
+        {this.PreferencesForm()}
+        <h3>URL schemes</h3>
+        <table>
+          <tbody>
+            {protocols.map(({ scheme, bound, handler }) => (
+              <tr key={scheme}>
+                <td>{scheme}</td>
+                <td>
+                  {bound
+                    ? 'Opens this app'
+                    : `Not bound to this app${
+                        handler ? ` (handler: ${handler})` : ''
+                      }`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </>
+    );
+  }
+
+  PreferencesForm() {
+    const { preferences } = this.state;
+    if (!preferences) {
+      return null;
+    }
+    return (
+      <>
+        <h3>Preferences</h3>
+        <table>
+          <tbody>
+            <tr>
+              <td>Desktop notifications</td>
+              <td>
+                <select
+                  aria-label="Desktop notifications"
+                  value={preferences.notifications}
+                  onChange={(e) =>
+                    this.updatePreference('notifications', e.target.value)
+                  }
+                >
+                  <option value="on">on</option>
+                  <option value="off">off</option>
+                </select>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </>
+    );
+  }
+
+  ProfileForm(editing: IdPProfile) {
+    return (
+      <>
+        <h2>{editing.id ? `Edit ${editing.name}` : 'New profile'}</h2>
+        <table>
+          <tbody>
+            {profileFields.map(({ key, label, options }) => (
+              <tr key={key}>
+                <td>
+                  <label htmlFor={`profile-${key}`}>{label}</label>
+                </td>
+                <td>
+                  {options ? (
+                    <select
+                      id={`profile-${key}`}
+                      value={String(editing[key])}
+                      onChange={(e) => this.updateField(key, e.target.value)}
+                    >
+                      {options.map((option) => (
+                        <option key={option} value={option}>
+                          {option}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      id={`profile-${key}`}
+                      type="text"
+                      value={String(editing[key] || '')}
+                      onChange={(e) => this.updateField(key, e.target.value)}
+                    />
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button type="button" onClick={this.saveProfile}>
+          Save
+        </button>
+        <button type="button" onClick={this.cancelEdit}>
+          Cancel
+        </button>
+      </>
+    );
+  }
+
+  render() {
+    const { editing } = this.state;
+    return (
+      <div className="settings">
+        <ToastContainer />
+        {editing ? this.ProfileForm(editing) : this.ProfileList()}
+      </div>
+    );
+  }
+}
+
+export default Settings;
@@ -0,0 +1,176 @@
+import ApiClient, { ApiError, ApiSession } from '../ApiClient';
+import TestHeaders from '../test-headers';
+
+jest.mock('../app-api', () => ({
+  log: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+function testResponse(status: number, headers: Record<string, string> = {}) {
+  return {
+    status,
+    ok: status >= 200 && status <= 299,
+    statusText: `Status ${status}`,
+    headers: new TestHeaders({
+      'Content-Type': 'application/json',
+      ...headers,
+    }),
+    json: () => Promise.resolve({ status }),
+    text: () => Promise.resolve(`${status}`),
+  };
+}
+
+const session: ApiSession = {
+  accessToken: 'token-1',
+  baseUri: 'https://demo.example.com',
+  accountId: 'account-1',
+};
+
+describe('ApiClient', () => {
+  let fetchMock: jest.Mock;
+  let onUnauthorized: jest.Mock;
+  let client: ApiClient;
+
+  /**
+   * The responses of the fetch calls, in order
+   */
+  function respond(...responses: [number, Record<string, string>?][]) {
+    responses.forEach(([status, headers]) =>
+      fetchMock.mockResolvedValueOnce(testResponse(status, headers))
+    );
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    fetchMock = jest.fn();
+    onUnauthorized = jest.fn();
+    Object.assign(window, { fetch: fetchMock, Headers: TestHeaders });
+    client = new ApiClient({
+      session: () => session,
+      onUnauthorized,
+      retryDelay: 100,
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  /**
+   * Run the request, advancing the fake timers for its retries
+   */
+  async function settle<T>(request: Promise<T>): Promise<T> {
+    let done = false;
+    const result = request.finally(() => {
+      done = true;
+    });
+    while (!done) {
+      // eslint-disable-next-line no-await-in-loop
+      await Promise.resolve();
+      jest.advanceTimersByTime(100);
+    }
+    return result;
+  }
+
+  it('builds the url from the baseUri and the account id', async () => {
+    respond([200]);
+    await expect(
+      client.get('/restapi/v2.1/accounts/{accountId}/envelopes')
+    ).resolves.toEqual({ status: 200 });
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://demo.example.com/restapi/v2.1/accounts/account-1/envelopes'
+    );
+    expect(fetchMock.mock.calls[0][1].headers.get('Authorization')).toBe(
+      'Bearer token-1'
+    );
+  });
+
+  it('accepts absolute urls of the baseUri', async () => {
+    respond([200]);
+    await client.get('https://demo.example.com/restapi/v2.1/accounts');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not send the access token to other hosts', async () => {
+    await expect(
+      client.get('https://other.example.com/restapi/v2.1/accounts')
+    ).rejects.toThrow(ApiError);
+    await expect(
+      client.get('https://demo.example.com.other.example.com/')
+    ).rejects.toThrow(ApiError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('retries a GET with exponential backoff', async () => {
+    respond([500], [502], [200]);
+    const setTimeoutSpy = jest.spyOn(window, 'setTimeout');
+    await expect(settle(client.get('/envelopes'))).resolves.toEqual({
+      status: 200,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    const delays = setTimeoutSpy.mock.calls.map((call) => call[1]);
+    expect(delays).toEqual([100, 200]);
+  });
+
+  it('uses the Retry-After time', async () => {
+    respond([429, { 'Retry-After': '2' }], [200]);
+    const setTimeoutSpy = jest.spyOn(window, 'setTimeout');
+    await settle(client.get('/envelopes'));
+    expect(setTimeoutSpy.mock.calls.map((call) => call[1])).toEqual([2000]);
+  });
+
+  it('stops retrying after maxRetries', async () => {
+    respond([503], [503], [503], [503]);
+    const request = settle(client.get('/envelopes'));
+    await expect(request).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('does not retry a POST after a 5xx', async () => {
+    respond([500]);
+    await expect(client.post('/envelopes', {})).rejects.toMatchObject({
+      status: 500,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a POST when asked to with Retry-After', async () => {
+    respond([503, { 'Retry-After': '1' }], [201]);
+    await expect(settle(client.post('/envelopes', {}))).resolves.toEqual({
+      status: 201,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('sends a PATCH with its JSON body and does not retry it after a 5xx', async () => {
+    respond([502]);
+    await expect(
+      client.patch('/envelopes/envelope-1', { status: 'voided' })
+    ).rejects.toMatchObject({ status: 502 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.method).toBe('PATCH');
+    expect(init.body).toBe('{"status":"voided"}');
+    expect(init.headers.get('Content-Type')).toBe('application/json');
+  });
+
+  it('calls onUnauthorized for a 401', async () => {
+    respond([401]);
+    await expect(client.get('/envelopes')).rejects.toMatchObject({
+      status: 401,
+    });
+    expect(onUnauthorized).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not call the API without an access token', async () => {
+    const loggedOut = new ApiClient({
+      session: () => ({ ...session, accessToken: null }),
+      onUnauthorized,
+    });
+    await expect(loggedOut.get('/envelopes')).rejects.toMatchObject({
+      status: 401,
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(onUnauthorized).not.toHaveBeenCalled();
+  });
+});
@@ -1,10 +1,144 @@
 import React from 'react';
 import '@testing-library/jest-dom';
-import { render } from '@testing-library/react';
+import { render, screen, waitFor, act } from '@testing-library/react';
 import App from '../App';
+import { AppApi } from '../app-api';
+import { IdPProfile } from '../profile-store';
+import { ISession } from '../session-store';
+import OAuthImplicit from '../OAuthImplicit';
+import OAuthPKCE from '../OAuthPKCE';
+
+// The preload script's API. See preload.js
+const appApi: AppApi = {
+  onUrlAction: () => () => {},
+  urlActionsReady: jest.fn(),
+  startLogin: jest.fn(),
+  startLoopback: jest.fn(),
+  cancelLogin: jest.fn(),
+  addAuthorization: jest.fn(),
+  consumeAuthorization: jest.fn(),
+  clearStorage: jest.fn(),
+  endSession: jest.fn(),
+  loadSession: () => Promise.resolve(null),
+  saveSession: jest.fn(),
+  clearSession: jest.fn(),
+  activeProfile: () =>
+    Promise.resolve({ id: 'default', authFlow: 'implicit' } as IdPProfile),
+  getProfiles: jest.fn(),
+  saveProfile: jest.fn(),
+  deleteProfile: jest.fn(),
+  selectProfile: jest.fn(),
+  recordAuthEvent: jest.fn(),
+  authEvents: jest.fn(),
+  clearAuthEvents: jest.fn(),
+  exportAuthEvents: jest.fn(),
+  setAuthState: jest.fn(),
+  onAuthCommand: () => () => {},
+  authCommandsReady: jest.fn(),
+  getPreferences: jest.fn(),
+  savePreferences: jest.fn(),
+  protocolStatus: jest.fn(),
+  log: jest.fn(),
+};
 
 describe('App', () => {
+  beforeAll(() => {
+    window.appApi = appApi;
+  });
+
   it('should render', () => {
     expect(render(<App />)).toBeTruthy();
   });
 });
+
+describe('App session renewal', () => {
+  const session: ISession = {
+    accessToken: 'access-1',
+    refreshToken: 'refresh-1',
+    idToken: null,
+    expires: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    name: 'Pat Example',
+    email: 'pat@example.com',
+    accountId: '7b3a1f62',
+    externalAccountId: 'b2c3d4e5f6',
+    accountName: 'Example Account',
+    baseUri: 'https://demo.docusign.net',
+    accounts: [],
+  };
+
+  /**
+   * Render the App with a restored session
+   */
+  async function renderApp(authFlow: string): Promise<App> {
+    window.appApi = {
+      ...appApi,
+      loadSession: () => Promise.resolve(session),
+      activeProfile: () =>
+        Promise.resolve({ id: 'default', authFlow } as IdPProfile),
+    };
+    const ref = React.createRef<App>();
+    render(<App ref={ref} />);
+    await waitFor(() => expect(ref.current?.authStatus()).toBe('logged-in'));
+    return ref.current as App;
+  }
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    window.appApi = appApi;
+  });
+
+  it('renews an expired session with its refresh token', async () => {
+    const refreshSession = jest
+      .spyOn(OAuthPKCE.prototype, 'refreshSession')
+      .mockResolvedValue({
+        accessToken: 'access-2',
+        refreshToken: 'refresh-2',
+        expires: new Date(Date.now() + 60 * 60 * 1000),
+      });
+    const app = await renderApp('pkce');
+    act(() => app.sessionExpired());
+    expect(app.authStatus()).toBe('logged-out');
+    await act(() => app.reauthenticate());
+    expect(refreshSession).toHaveBeenCalledWith('refresh-1');
+    expect(app.authStatus()).toBe('logged-in');
+    expect(app.state).toMatchObject({
+      accessToken: 'access-2',
+      refreshToken: 'refresh-2',
+      name: 'Pat Example',
+      accountId: '7b3a1f62',
+    });
+  });
+
+  it('shows the login page while the session is renewed via the browser', async () => {
+    const startLogin = jest
+      .spyOn(OAuthImplicit.prototype, 'startLogin')
+      .mockResolvedValue();
+    const app = await renderApp('implicit');
+    act(() => app.sessionExpired());
+    await act(() => app.reauthenticate());
+    expect(startLogin).toHaveBeenCalledWith('none');
+    expect(app.authStatus()).toBe('logging-in');
+    expect(
+      screen.getByRole('heading', { name: 'Please login via your browser' })
+    ).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Login' })).toBeNull();
+  });
+
+  it('keeps a valid session when its renewal failed', async () => {
+    jest.spyOn(OAuthImplicit.prototype, 'startLogin').mockResolvedValue();
+    const app = await renderApp('implicit');
+    await act(() => app.reauthenticate());
+    act(() =>
+      app.oAuthError(
+        'login_timeout',
+        'The login was not completed within 300 seconds'
+      )
+    );
+    expect(app.authStatus()).toBe('logged-in');
+    expect(app.state).toMatchObject({
+      accessToken: 'access-1',
+      loginError: null,
+      showHomePage: true,
+    });
+  });
+});
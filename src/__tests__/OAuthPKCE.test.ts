@@ -0,0 +1,164 @@
+import { TextEncoder } from 'util';
+import OAuthPKCE from '../OAuthPKCE';
+import { AppApi } from '../app-api';
+import { IdPProfile } from '../profile-store';
+import { PendingAuthorization } from '../pending-authorizations';
+import TestHeaders from '../test-headers';
+
+// @types/node of this repo predates crypto.webcrypto
+// eslint-disable-next-line global-require, @typescript-eslint/no-var-requires
+const { webcrypto } = require('crypto') as { webcrypto: Crypto };
+
+jest.mock('../app-api', () => ({
+  log: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const tokenEndpoint = 'https://idp.example.com/oauth/token';
+
+jest.mock('../oidc-discovery', () => ({
+  idpEndpoints: () =>
+    Promise.resolve({ token: 'https://idp.example.com/oauth/token' }),
+}));
+
+const profile = {
+  id: 'default',
+  authFlow: 'pkce',
+  pkceClientId: 'client-1',
+} as IdPProfile;
+
+const authorization: PendingAuthorization = {
+  state: 'state-1',
+  nonce: null,
+  codeVerifier: 'verifier-1',
+  redirectUrl: 'com.example.electron1:/pkce-result',
+  profileId: 'default',
+  created: 0,
+};
+
+function tokenResponse(status: number, body: Record<string, unknown> = {}) {
+  return {
+    ok: status >= 200 && status <= 299,
+    status,
+    statusText: `Status ${status}`,
+    json: () => Promise.resolve(body),
+  };
+}
+
+describe('OAuthPKCE', () => {
+  let fetchMock: jest.Mock;
+  let oAuth: OAuthPKCE;
+
+  /**
+   * The parameters of the token request
+   */
+  function requestBody(): Record<string, string> {
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(tokenEndpoint);
+    expect(init.method).toBe('POST');
+    const params: Record<string, string> = {};
+    (init.body as URLSearchParams).forEach((value, name) => {
+      params[name] = value;
+    });
+    return params;
+  }
+
+  beforeAll(async () => {
+    Object.assign(window, { TextEncoder });
+    Object.defineProperty(window, 'crypto', { value: webcrypto });
+    window.appApi = ({
+      activeProfile: () => Promise.resolve(profile),
+    } as unknown) as AppApi;
+    await OAuthPKCE.loadProfile();
+  });
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    Object.assign(window, { fetch: fetchMock, Headers: TestHeaders });
+    oAuth = new OAuthPKCE({ oAuthResults: jest.fn(), oAuthError: jest.fn() });
+  });
+
+  it('computes the S256 code challenge', async () => {
+    // RFC 7636 Appendix B
+    expect(
+      await OAuthPKCE.computeCodeChallenge(
+        'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk'
+      )
+    ).toBe('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM');
+  });
+
+  it('exchanges the code with the code verifier', async () => {
+    const tokens = {
+      access_token: 'access-1',
+      token_type: 'Bearer',
+      refresh_token: 'refresh-1',
+      expires_in: 3600,
+    };
+    fetchMock.mockResolvedValue(tokenResponse(200, tokens));
+    expect(await oAuth.exchangeCode('code-1', authorization)).toEqual(tokens);
+    expect(requestBody()).toEqual({
+      grant_type: 'authorization_code',
+      code: 'code-1',
+      code_verifier: 'verifier-1',
+      client_id: 'client-1',
+      redirect_uri: 'com.example.electron1:/pkce-result',
+    });
+  });
+
+  it('throws for a login request without a code verifier', async () => {
+    await expect(
+      oAuth.exchangeCode('code-1', { ...authorization, codeVerifier: null })
+    ).rejects.toThrow('The login request has no code_verifier');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('throws when the token endpoint rejects the code', async () => {
+    fetchMock.mockResolvedValue(tokenResponse(400));
+    await expect(oAuth.exchangeCode('code-1', authorization)).rejects.toThrow(
+      'Status 400'
+    );
+  });
+
+  it('renews the session with a rotated refresh token', async () => {
+    fetchMock.mockResolvedValue(
+      tokenResponse(200, {
+        access_token: 'access-2',
+        token_type: 'Bearer',
+        refresh_token: 'refresh-2',
+        expires_in: 3600,
+      })
+    );
+    expect(await oAuth.refreshSession('refresh-1')).toEqual({
+      accessToken: 'access-2',
+      refreshToken: 'refresh-2',
+      expires: expect.any(Date),
+    });
+    expect(requestBody()).toEqual({
+      grant_type: 'refresh_token',
+      refresh_token: 'refresh-1',
+      client_id: 'client-1',
+    });
+  });
+
+  it('keeps the refresh token if the IdP did not send a new one', async () => {
+    fetchMock.mockResolvedValue(
+      tokenResponse(200, {
+        access_token: 'access-2',
+        token_type: 'Bearer',
+        expires_in: 3600,
+      })
+    );
+    const tokens = await oAuth.refreshSession('refresh-1');
+    expect(tokens?.refreshToken).toBe('refresh-1');
+  });
+
+  it('needs a login when the refresh token was not accepted', async () => {
+    fetchMock.mockResolvedValue(tokenResponse(400));
+    expect(await oAuth.refreshSession('refresh-1')).toBeNull();
+  });
+
+  it('needs a login without a refresh token', async () => {
+    expect(await oAuth.refreshSession(null)).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
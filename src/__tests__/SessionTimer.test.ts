@@ -0,0 +1,84 @@
+import SessionTimer from '../SessionTimer';
+
+const minute = 60 * 1000;
+const day = 24 * 60 * minute;
+
+describe('SessionTimer', () => {
+  let onTick: jest.Mock;
+  let onWarning: jest.Mock;
+  let onExpired: jest.Mock;
+  let timer: SessionTimer;
+
+  beforeEach(() => {
+    jest.useFakeTimers('modern');
+    jest.setSystemTime(new Date('2021-01-01T00:00:00Z'));
+    onTick = jest.fn();
+    onWarning = jest.fn();
+    onExpired = jest.fn();
+    timer = new SessionTimer({ onTick, onWarning, onExpired });
+  });
+
+  afterEach(() => {
+    timer.stop();
+    jest.useRealTimers();
+  });
+
+  function expiresIn(ms: number): Date {
+    return new Date(Date.now() + ms);
+  }
+
+  it('warns 5 minutes before the expiration', () => {
+    timer.start(expiresIn(30 * minute));
+    jest.advanceTimersByTime(25 * minute - 1);
+    expect(onWarning).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+    expect(onWarning).toHaveBeenCalledWith(5);
+    expect(onExpired).not.toHaveBeenCalled();
+  });
+
+  it('warns at once when less than 5 minutes are left', () => {
+    timer.start(expiresIn(3 * minute));
+    expect(onWarning).toHaveBeenCalledWith(3);
+  });
+
+  it('ends the session when it expires', () => {
+    timer.start(expiresIn(30 * minute));
+    jest.advanceTimersByTime(30 * minute - 1);
+    expect(onExpired).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+    expect(onExpired).toHaveBeenCalledTimes(1);
+    expect(onWarning).toHaveBeenCalledTimes(1);
+  });
+
+  it('ends an expired session at once', () => {
+    timer.start(expiresIn(-minute));
+    expect(onExpired).toHaveBeenCalledTimes(1);
+    expect(onWarning).not.toHaveBeenCalled();
+  });
+
+  it('counts down every minute', () => {
+    timer.start(expiresIn(30 * minute));
+    expect(onTick).toHaveBeenLastCalledWith(30);
+    jest.advanceTimersByTime(10 * minute);
+    expect(onTick).toHaveBeenLastCalledWith(20);
+  });
+
+  it('waits for sessions longer than the setTimeout limit', () => {
+    timer.start(expiresIn(30 * day));
+    jest.advanceTimersByTime(25 * day);
+    expect(onWarning).not.toHaveBeenCalled();
+    expect(onExpired).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(5 * day - 5 * minute);
+    expect(onWarning).toHaveBeenCalledWith(5);
+    jest.advanceTimersByTime(5 * minute);
+    expect(onExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('calls nothing after it was stopped', () => {
+    timer.start(expiresIn(30 * minute));
+    timer.stop();
+    jest.advanceTimersByTime(30 * minute);
+    expect(onWarning).not.toHaveBeenCalled();
+    expect(onExpired).not.toHaveBeenCalled();
+  });
+});
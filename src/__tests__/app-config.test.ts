@@ -0,0 +1,186 @@
+import {
+  resolveConfig,
+  envSource,
+  envName,
+  fileSources,
+  presetName,
+  settingsErrors,
+} from '../app-config';
+
+jest.mock('electron', () => ({ app: { getPath: () => '/tmp' } }));
+
+jest.mock('electron-log', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+}));
+
+jest.mock('../config', () => ({ __esModule: true, default: {} }));
+
+const valid = {
+  schemeName: 'com.example.electron1',
+  schemeSlashCount: 1,
+  idpUrl: 'https://account-d.docusign.com',
+  implicitClientId: 'b2b5xxxx-xxxx-xxxx-xxxx-xxxxxxxxxx6b',
+};
+
+function errorsFor(settings: { [key: string]: unknown }): string[] {
+  return resolveConfig([{ name: 'src/config.js', settings }]).errors;
+}
+
+describe('resolveConfig', () => {
+  it('accepts valid settings and applies the defaults', () => {
+    const { config, errors } = resolveConfig([
+      { name: 'src/config.js', settings: valid },
+    ]);
+    expect(errors).toEqual([]);
+    expect(config.idpUrl).toBe(valid.idpUrl);
+    expect(config.authFlow).toBe('implicit');
+    expect(config.loopbackTimeout).toBe(300);
+  });
+
+  it.each([
+    [
+      'a string schemeSlashCount',
+      { schemeSlashCount: '1' },
+      'The schemeSlashCount setting in src/config.js must be a number, not "1".',
+    ],
+    [
+      'a schemeSlashCount of 3',
+      { schemeSlashCount: 3 },
+      'The schemeSlashCount setting must be one of 1, 2.',
+    ],
+    [
+      'an empty implicitClientId',
+      { implicitClientId: '' },
+      'The implicitClientId setting is required for authFlow implicit.',
+    ],
+    [
+      'a malformed idpUrl',
+      { idpUrl: 'account-d.docusign.com' },
+      'The idpUrl setting is not a valid url: account-d.docusign.com',
+    ],
+    [
+      'an unknown setting',
+      { idpURL: 'https://account-d.docusign.com' },
+      'Unknown setting idpURL in src/config.js.',
+    ],
+    [
+      'an unknown authFlow',
+      { authFlow: 'code' },
+      'The authFlow setting must be one of "implicit", "pkce".',
+    ],
+    [
+      'an unknown userInfoAdapter',
+      { userInfoAdapter: 'okta' },
+      'The userInfoAdapter setting must be one of "docusign", "oidc-userinfo", "oidc-id-token".',
+    ],
+    [
+      'a negative loopbackTimeout',
+      { loopbackTimeout: -1 },
+      'The loopbackTimeout setting must be a positive whole number: -1',
+    ],
+    [
+      'a loopbackTimeout longer than the authorizationMaxAge',
+      { loopbackTimeout: 900, authorizationMaxAge: 600 },
+      'The loopbackTimeout setting must not be greater than the authorizationMaxAge setting.',
+    ],
+  ])('rejects %s', (_name, settings, error) => {
+    expect(errorsFor({ ...valid, ...settings })).toContain(error);
+  });
+
+  it('accepts an idpUrl with a trailing slash', () => {
+    expect(
+      errorsFor({ ...valid, idpUrl: 'https://account-d.docusign.com/' })
+    ).toEqual([]);
+  });
+
+  it('uses the later sources first', () => {
+    const { config } = resolveConfig([
+      { name: 'src/config.js', settings: valid },
+      { name: 'config.json', settings: { idpUrl: 'https://idp.example.com' } },
+    ]);
+    expect(config.idpUrl).toBe('https://idp.example.com');
+  });
+});
+
+describe('environment overrides', () => {
+  it('names the variables after the settings', () => {
+    expect(envName('idpUrl')).toBe('APP_CONFIG_IDP_URL');
+  });
+
+  it('converts the numeric settings', () => {
+    const source = envSource({
+      APP_CONFIG_SCHEME_SLASH_COUNT: '2',
+      APP_CONFIG_IDP_URL: 'https://idp.example.com',
+    });
+    expect(source.settings).toEqual({
+      schemeSlashCount: 2,
+      idpUrl: 'https://idp.example.com',
+    });
+  });
+});
+
+describe('presets', () => {
+  const file = {
+    ...valid,
+    presets: { production: { idpUrl: 'https://account.docusign.com' } },
+  };
+
+  it('chooses the preset from the environment', () => {
+    expect(presetName({ NODE_ENV: 'development' })).toBe('development');
+    expect(presetName({ NODE_ENV: 'production' })).toBe('production');
+    expect(
+      presetName({ NODE_ENV: 'production', APP_CONFIG_PRESET: 'staging' })
+    ).toBe('staging');
+  });
+
+  it("adds the preset's settings", () => {
+    const { config, errors } = resolveConfig(fileSources(file, 'production'));
+    expect(errors).toEqual([]);
+    expect(config.idpUrl).toBe('https://account.docusign.com');
+  });
+
+  it('allows a missing preset', () => {
+    const { config } = resolveConfig(fileSources(file, 'staging'));
+    expect(config.idpUrl).toBe(valid.idpUrl);
+  });
+});
+
+describe('settingsErrors', () => {
+  const profile = { ...valid, id: 'p1', name: 'Profile 1' };
+
+  it('accepts a valid profile and ignores its other attributes', () => {
+    expect(settingsErrors('the profile', profile)).toEqual([]);
+  });
+
+  it('rejects an empty or invalid scheme', () => {
+    expect(
+      settingsErrors('the profile', { ...profile, schemeName: '' })
+    ).toEqual(['The schemeName setting is required.']);
+    expect(
+      settingsErrors('the profile', { ...profile, schemeName: '1scheme:' })
+    ).toEqual(['The schemeName setting is not a valid url scheme: 1scheme:']);
+  });
+
+  it('rejects an unknown userInfoAdapter', () => {
+    expect(
+      settingsErrors('the profile', { ...profile, userInfoAdapter: 'okta' })
+    ).toEqual([
+      'The userInfoAdapter setting must be one of "docusign", "oidc-userinfo", "oidc-id-token".',
+    ]);
+  });
+
+  it('rejects invalid urls', () => {
+    expect(
+      settingsErrors('the profile', {
+        ...profile,
+        idpUrl: 'file:///etc',
+        tokenEndpoint: 'not a url',
+      })
+    ).toEqual([
+      'The idpUrl setting must be an http or https url: file:///etc',
+      'The tokenEndpoint setting is not a valid url: not a url',
+    ]);
+  });
+});
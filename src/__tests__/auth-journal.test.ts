@@ -0,0 +1,91 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { dialog } from 'electron';
+import { exportAuthEvents, redact } from '../auth-journal';
+
+const mockUserData = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-journal-'));
+
+jest.mock('electron', () => ({
+  app: { getPath: () => mockUserData },
+  dialog: { showSaveDialog: jest.fn() },
+}));
+
+jest.mock('electron-log', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+}));
+
+describe('redact', () => {
+  it('redacts JWTs', () => {
+    expect(
+      redact('id_token_hint eyJhbGciOiJSUzI1NiJ9.eyJzdWIiOiIxIn0.c2ln-_x here')
+    ).toBe('id_token_hint [redacted] here');
+  });
+
+  it('redacts Bearer tokens', () => {
+    expect(redact('Authorization: Bearer abc.DEF~123+/x== sent')).toBe(
+      'Authorization: Bearer [redacted] sent'
+    );
+    expect(redact('bearer abc123')).toBe('bearer [redacted]');
+  });
+
+  it('redacts the secret parameters', () => {
+    expect(
+      redact(
+        'com.example.electron1:/callback#access_token=abc&token_type=bearer&expires_in=3600'
+      )
+    ).toBe(
+      'com.example.electron1:/callback#access_token=[redacted]&token_type=bearer&expires_in=3600'
+    );
+    expect(
+      redact('http://127.0.0.1:5000/callback?code=xyz&state=s1 nonce=n1')
+    ).toBe(
+      'http://127.0.0.1:5000/callback?code=[redacted]&state=s1 nonce=[redacted]'
+    );
+    expect(redact('refresh_token=r1&id_token=i1&code_verifier=v1')).toBe(
+      'refresh_token=[redacted]&id_token=[redacted]&code_verifier=[redacted]'
+    );
+  });
+
+  it('keeps the text without secrets', () => {
+    expect(redact('OAuth state expired: the login request is too old')).toBe(
+      'OAuth state expired: the login request is too old'
+    );
+  });
+});
+
+describe('exportAuthEvents', () => {
+  afterAll(() => {
+    fs.rmdirSync(mockUserData, { recursive: true });
+  });
+
+  it('saves the events to the chosen file', async () => {
+    const filePath = path.join(mockUserData, 'export.json');
+    (dialog.showSaveDialog as jest.Mock).mockResolvedValue({
+      canceled: false,
+      filePath,
+    });
+    expect(await exportAuthEvents(null)).toEqual({ filePath, error: null });
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf8'))).toEqual([]);
+  });
+
+  it('returns nothing if the user cancelled', async () => {
+    (dialog.showSaveDialog as jest.Mock).mockResolvedValue({ canceled: true });
+    expect(await exportAuthEvents(null)).toEqual({
+      filePath: null,
+      error: null,
+    });
+  });
+
+  it('returns the problem if the file could not be written', async () => {
+    (dialog.showSaveDialog as jest.Mock).mockResolvedValue({
+      canceled: false,
+      filePath: path.join(mockUserData, 'missing', 'export.json'),
+    });
+    const result = await exportAuthEvents(null);
+    expect(result.filePath).toBeNull();
+    expect(result.error).toMatch(/ENOENT/);
+  });
+});
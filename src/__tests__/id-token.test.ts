@@ -0,0 +1,136 @@
+import { TextEncoder, TextDecoder } from 'util';
+import { validateIdToken, accessTokenHash, IdTokenExpected } from '../id-token';
+
+// @types/node of this repo predates crypto.webcrypto
+// eslint-disable-next-line global-require, @typescript-eslint/no-var-requires
+const { webcrypto } = require('crypto') as { webcrypto: Crypto };
+
+jest.mock('../app-api', () => ({
+  log: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const jwksUri = 'https://idp.example.com/jwks';
+const accessToken = 'eyJ0eXAiOiJNVCJ9.eyJtb2NrIjoidHJ1ZSJ9.bW9jaw';
+
+let privateKey: CryptoKey;
+
+function base64Url(bytes: Uint8Array): string {
+  return Buffer.from(bytes)
+    .toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function encodeJSON(value: unknown): string {
+  return base64Url(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+async function signToken(claims: Record<string, unknown>) {
+  const signedData = `${encodeJSON({ alg: 'RS256', kid: 'k1' })}.${encodeJSON(
+    claims
+  )}`;
+  const signature = await webcrypto.subtle.sign(
+    'RSASSA-PKCS1-v1_5',
+    privateKey,
+    new TextEncoder().encode(signedData)
+  );
+  return `${signedData}.${base64Url(new Uint8Array(signature))}`;
+}
+
+const expected: IdTokenExpected = {
+  issuer: 'https://idp.example.com',
+  clientId: 'client-1',
+  nonce: 'nonce-1',
+  jwksUri,
+  accessToken,
+};
+
+async function validClaims(): Promise<Record<string, unknown>> {
+  return {
+    iss: expected.issuer,
+    sub: 'user-1',
+    aud: expected.clientId,
+    exp: Math.floor(Date.now() / 1000) + 300,
+    nonce: 'nonce-1',
+    at_hash: await accessTokenHash(accessToken),
+  };
+}
+
+describe('validateIdToken', () => {
+  beforeAll(async () => {
+    Object.assign(window, { TextEncoder, TextDecoder });
+    Object.defineProperty(window, 'crypto', { value: webcrypto });
+    const keyPair = (await webcrypto.subtle.generateKey(
+      {
+        name: 'RSASSA-PKCS1-v1_5',
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([1, 0, 1]),
+        hash: 'SHA-256',
+      },
+      true,
+      ['sign', 'verify']
+    )) as CryptoKeyPair;
+    privateKey = keyPair.privateKey;
+    const jwk = await webcrypto.subtle.exportKey('jwk', keyPair.publicKey);
+    window.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ keys: [{ ...jwk, kid: 'k1' }] }),
+    });
+    window.Headers = (jest.fn() as unknown) as typeof Headers;
+  });
+
+  it('accepts a valid token', async () => {
+    const claims = await validateIdToken(
+      await signToken(await validClaims()),
+      expected
+    );
+    expect(claims.sub).toBe('user-1');
+  });
+
+  it('rejects a token when no nonce is expected', async () => {
+    const token = await signToken(await validClaims());
+    await expect(
+      validateIdToken(token, { ...expected, nonce: null })
+    ).rejects.toThrow('nonce');
+  });
+
+  it('rejects a token with another nonce', async () => {
+    const token = await signToken({ ...(await validClaims()), nonce: 'x' });
+    await expect(validateIdToken(token, expected)).rejects.toThrow('nonce');
+  });
+
+  it('rejects a token without an at_hash', async () => {
+    const claims = await validClaims();
+    delete claims.at_hash;
+    await expect(
+      validateIdToken(await signToken(claims), expected)
+    ).rejects.toThrow('no at_hash');
+  });
+
+  it('rejects an at_hash for another access token', async () => {
+    const token = await signToken(await validClaims());
+    await expect(
+      validateIdToken(token, { ...expected, accessToken: 'other' })
+    ).rejects.toThrow('at_hash does not match');
+  });
+
+  it('does not require an at_hash for the code flow', async () => {
+    const claims = await validClaims();
+    delete claims.at_hash;
+    const token = await signToken(claims);
+    await expect(
+      validateIdToken(token, { ...expected, accessToken: null })
+    ).resolves.toBeTruthy();
+  });
+
+  it('rejects a tampered token', async () => {
+    const [header, , signature] = (await signToken(await validClaims())).split(
+      '.'
+    );
+    const claims = encodeJSON({ ...(await validClaims()), sub: 'user-2' });
+    await expect(
+      validateIdToken(`${header}.${claims}.${signature}`, expected)
+    ).rejects.toThrow('signature');
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * End-to-end tests of the Implicit grant login.
+ *
+ * The App is rendered with a window.appApi that is wired to the
+ * main process modules (the pending login requests, parseAppURL and
+ * the url-action queue) instead of IPC. The user's browser is
+ * replaced by a request to the local mock IdP (see mock-idp.ts),
+ * whose redirect is delivered to the App on the url-action path.
+ * No network access is needed.
+ */
+import React from 'react';
+import http from 'http';
+import { randomFillSync } from 'crypto';
+import '@testing-library/jest-dom';
+import {
+  render,
+  screen,
+  fireEvent,
+  waitFor,
+  RenderResult,
+} from '@testing-library/react';
+import { WebContents } from 'electron';
+import App from '../App';
+import { AppApi } from '../app-api';
+import { IdPProfile } from '../profile-store';
+import { parseAppURL, URLActionType } from '../parse-app-url';
+import { sendUrlAction, urlActionsReady } from '../url-action-queue';
+import {
+  addAuthorization,
+  consumeAuthorization,
+  clearAuthorizations,
+} from '../pending-authorizations';
+import { startMockIdP, defaultMockIdPOptions, MockIdP } from '../mock-idp';
+import TestHeaders from '../test-headers';
+
+jest.mock('electron', () => ({ app: { getPath: () => '/nonexistent' } }));
+
+jest.mock('electron-log', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+}));
+
+jest.mock('../config', () => ({ __esModule: true, default: {} }));
+
+jest.mock('../auth-journal', () => ({ recordAuthEvent: jest.fn() }));
+
+// The profile's idpUrl is the mock IdP's url
+let mockProfile: IdPProfile;
+
+jest.mock('../profile-store', () => ({
+  activeProfile: () => mockProfile,
+  loadProfiles: () => ({ activeId: 'default', profiles: [mockProfile] }),
+}));
+
+//
+// Browser APIs that jsdom does not have. See test-headers.ts
+//
+
+/**
+ * fetch over Node's http. Redirects are not followed.
+ */
+function testFetch(
+  url: string,
+  init: { method?: string; headers?: TestHeaders; body?: unknown } = {}
+): Promise<unknown> {
+  const headers: Record<string, string> = { Connection: 'close' };
+  if (init.headers) {
+    init.headers.forEach((value, name) => {
+      headers[name] = value;
+    });
+  }
+  return new Promise((resolve, reject) => {
+    const request = http.request(
+      url,
+      { method: init.method || 'GET', headers },
+      (response) => {
+        let body = '';
+        response.setEncoding('utf8');
+        response.on('data', (chunk) => {
+          body += chunk;
+        });
+        response.on('end', () => {
+          const status = response.statusCode || 0;
+          resolve({
+            ok: status >= 200 && status < 300,
+            status,
+            statusText: response.statusMessage || '',
+            headers: new TestHeaders(
+              response.headers as Record<string, string>
+            ),
+            json: () => Promise.resolve(JSON.parse(body)),
+            text: () => Promise.resolve(body),
+          });
+        });
+      }
+    );
+    request.on('error', reject);
+    if (init.body) {
+      request.write(String(init.body));
+    }
+    request.end();
+  });
+}
+
+//
+// The harness
+//
+let idp: MockIdP;
+// The redirects from the IdP to the app, in order
+let redirects: string[];
+const urlActionListeners = new Set<(action: URLActionType) => void>();
+
+/**
+ * The main process's handling of an app url. See main.dev.ts
+ */
+function deliver(url: string) {
+  sendUrlAction(parseAppURL(url));
+}
+
+/**
+ * The user's browser: open the authorization url, then
+ * deliver the IdP's redirect to the app
+ */
+async function openInBrowser(url: string) {
+  const response = (await testFetch(url)) as { headers: TestHeaders };
+  const location = response.headers.get('location');
+  if (location) {
+    redirects.push(location);
+    deliver(location);
+  }
+}
+
+// The renderer's end of the url-action channel
+const renderer = ({
+  isDestroyed: () => false,
+  send: (_channel: string, action: URLActionType) =>
+    urlActionListeners.forEach((listener) => listener(action)),
+} as unknown) as WebContents;
+
+const appApi: AppApi = {
+  onUrlAction: (listener) => {
+    urlActionListeners.add(listener);
+    return () => {
+      urlActionListeners.delete(listener);
+    };
+  },
+  urlActionsReady: () => urlActionsReady(renderer),
+  startLogin: (url) => {
+    openInBrowser(url);
+  },
+  startLoopback: jest.fn(),
+  cancelLogin: () => clearAuthorizations(),
+  addAuthorization: (authorization) =>
+    Promise.resolve(addAuthorization(authorization)),
+  consumeAuthorization: (state) => Promise.resolve(consumeAuthorization(state)),
+  clearStorage: () => Promise.resolve(),
+  endSession: jest.fn(),
+  loadSession: () => Promise.resolve(null),
+  saveSession: jest.fn(),
+  clearSession: jest.fn(),
+  activeProfile: () => Promise.resolve(mockProfile),
+  getProfiles: jest.fn(),
+  saveProfile: jest.fn(),
+  deleteProfile: jest.fn(),
+  selectProfile: jest.fn(),
+  recordAuthEvent: jest.fn(),
+  authEvents: jest.fn(),
+  clearAuthEvents: jest.fn(),
+  exportAuthEvents: jest.fn(),
+  setAuthState: jest.fn(),
+  onAuthCommand: () => () => {},
+  authCommandsReady: jest.fn(),
+  getPreferences: jest.fn(),
+  savePreferences: jest.fn(),
+  protocolStatus: jest.fn(),
+  log: jest.fn(),
+};
+
+/**
+ * Render the App and click Login. The button is shown when the
+ * IdP profile was loaded and no session was restored.
+ */
+async function login(): Promise<RenderResult> {
+  const result = render(<App />);
+  fireEvent.click(await screen.findByRole('button', { name: /login$/i }));
+  return result;
+}
+
+function accountInfo(result: RenderResult): Element | null {
+  return result.container.querySelector('.accountInfo');
+}
+
+describe('Implicit grant login', () => {
+  beforeAll(async () => {
+    idp = await startMockIdP();
+    mockProfile = {
+      id: 'default',
+      name: 'Mock IdP',
+      schemeName: 'com.example.electron1',
+      schemeSlashCount: 1,
+      idpUrl: idp.url,
+      authFlow: 'implicit',
+      implicitClientId: 'mock-client',
+      implicitReturnPath: 'implicit-result',
+      implicitScopes: 'signature',
+      implicitRedirectUrl: '',
+      pkceClientId: '',
+      pkceReturnPath: 'pkce-result',
+      pkceScopes: '',
+      pkceRedirectUrl: '',
+      redirectMode: 'scheme',
+      oidcMode: 'off',
+      userInfoAdapter: 'docusign',
+      logoutRevocation: 'off',
+      logoutEndSession: 'off',
+      authorizationEndpoint: '',
+      tokenEndpoint: '',
+      userinfoEndpoint: '',
+      revocationEndpoint: '',
+      endSessionEndpoint: '',
+    };
+    window.appApi = appApi;
+    Object.assign(window, { fetch: testFetch, Headers: TestHeaders });
+    Object.defineProperty(window, 'crypto', {
+      value: { getRandomValues: (array: Uint8Array) => randomFillSync(array) },
+    });
+  });
+
+  afterAll(() => idp.close());
+
+  beforeEach(() => {
+    redirects = [];
+    idp.configure(defaultMockIdPOptions);
+    window.localStorage.clear();
+    window.history.replaceState(null, '', '/');
+  });
+
+  afterEach(() => clearAuthorizations());
+
+  it('completes the login and shows the user information', async () => {
+    const result = await login();
+    await waitFor(() =>
+      expect(accountInfo(result)).toHaveTextContent('Pat Example')
+    );
+    expect(accountInfo(result)).toHaveTextContent(
+      'Example Account (b2c3d4e5f6)'
+    );
+    expect(idp.requests).toContain('/oauth/userinfo');
+  });
+
+  it('asks a user with several accounts to choose one', async () => {
+    idp.configure({
+      accounts: [
+        ...defaultMockIdPOptions.accounts,
+        {
+          account_id: '0c9d8e7f-0000-4a1b-8c2d-112233445566',
+          account_name: 'Second Account',
+          base_uri: 'https://eu.docusign.net',
+          is_default: false,
+        },
+      ],
+    });
+    const result = await login();
+    await screen.findByText('Please choose an account');
+    fireEvent.click(screen.getByText('Second Account (2233445566)'));
+    expect(accountInfo(result)).toHaveTextContent('Pat Example');
+    expect(screen.getByRole('combobox', { name: 'Account' })).toHaveValue(
+      '0c9d8e7f-0000-4a1b-8c2d-112233445566'
+    );
+  });
+
+  it("shows the IdP's error response with a retry button", async () => {
+    idp.configure({
+      error: { error: 'access_denied', description: 'The user said no' },
+    });
+    const result = await login();
+    await screen.findByText('The login was not successful');
+    expect(
+      screen.getByText('The user said no (access_denied)')
+    ).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Retry' })).toBeInTheDocument();
+    expect(accountInfo(result)).toBeNull();
+  });
+
+  it('completes the login after a slow IdP response', async () => {
+    idp.configure({ delay: 300 });
+    const result = await login();
+    expect(screen.getByText('Please login via your browser')).toBeVisible();
+    await waitFor(
+      () => expect(accountInfo(result)).toHaveTextContent('Pat Example'),
+      { timeout: 3000 }
+    );
+  });
+
+  it('rejects a replayed callback', async () => {
+    const result = await login();
+    await waitFor(() =>
+      expect(accountInfo(result)).toHaveTextContent('Pat Example')
+    );
+    deliver(redirects[0]);
+    await screen.findByText(/This login response was already used/);
+  });
+
+  it('ignores a callback with a tampered fragment', async () => {
+    idp.configure({ fragment: { token_type: 'mac' } });
+    const result = await login();
+    await waitFor(() => expect(redirects).toHaveLength(1));
+    expect(screen.getByText('Please login via your browser')).toBeVisible();
+    expect(accountInfo(result)).toBeNull();
+  });
+
+  it('returns to the protected page after the login', async () => {
+    window.history.replaceState(null, '', '/session');
+    render(<App />);
+    await screen.findByText('Please login to see that page.');
+    expect(window.location.pathname).toBe('/');
+    fireEvent.click(screen.getByRole('button', { name: /login$/i }));
+    await screen.findByText('Session details');
+    expect(window.location.pathname).toBe('/session');
+    expect(screen.getByText('pat@example.com')).toBeInTheDocument();
+  });
+});
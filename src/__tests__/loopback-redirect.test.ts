@@ -0,0 +1,131 @@
+import http from 'http';
+import {
+  startLoopbackListener,
+  closeLoopbackListeners,
+} from '../loopback-redirect';
+import { pendingAuthorizationFor } from '../pending-authorizations';
+
+jest.mock('electron-log', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+}));
+
+let mockLoopbackTimeout = 60;
+
+jest.mock('../app-config', () => ({
+  appConfig: () => ({ loopbackTimeout: mockLoopbackTimeout }),
+}));
+
+jest.mock('../profile-store', () => ({
+  activeProfile: () => ({
+    schemeName: 'com.example.electron1',
+    schemeSlashCount: 1,
+    implicitReturnPath: 'implicit-result',
+  }),
+}));
+
+jest.mock('../pending-authorizations', () => ({
+  pendingAuthorizationFor: jest.fn(),
+}));
+
+/**
+ * The pending login requests' states, by redirect url
+ */
+function pendingStates(states: Record<string, string>) {
+  (pendingAuthorizationFor as jest.Mock).mockImplementation(
+    (redirectUrl: string) =>
+      states[redirectUrl] ? { state: states[redirectUrl], redirectUrl } : null
+  );
+}
+
+/**
+ * A GET request to the listener
+ * @returns the response's status code
+ */
+function get(url: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    http
+      .get(url, (res) => {
+        res.resume();
+        res.on('end', () => resolve(res.statusCode || 0));
+      })
+      .on('error', reject);
+  });
+}
+
+describe('loopback listener', () => {
+  afterEach(() => {
+    closeLoopbackListeners();
+    mockLoopbackTimeout = 60;
+  });
+
+  it('turns the callback into the app url', async () => {
+    const onURL = jest.fn();
+    const redirectUrl = await startLoopbackListener('pkce-result', onURL);
+    pendingStates({ [redirectUrl]: 's1' });
+    expect(redirectUrl).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/pkce-result$/);
+    expect(await get(`${redirectUrl}?code=c1&state=s1`)).toBe(200);
+    expect(onURL).toHaveBeenCalledWith(
+      'com.example.electron1:/pkce-result?code=c1&state=s1'
+    );
+  });
+
+  it('keeps the listeners of several pending logins', async () => {
+    const onURL = jest.fn();
+    const first = await startLoopbackListener('pkce-result', onURL);
+    const second = await startLoopbackListener('pkce-result', onURL);
+    pendingStates({ [first]: 's1', [second]: 's2' });
+    expect(await get(`${first}?code=c1&state=s1`)).toBe(200);
+    expect(await get(`${second}?code=c2&state=s2`)).toBe(200);
+    expect(onURL.mock.calls).toEqual([
+      ['com.example.electron1:/pkce-result?code=c1&state=s1'],
+      ['com.example.electron1:/pkce-result?code=c2&state=s2'],
+    ]);
+  });
+
+  it('closes the listener after the callback', async () => {
+    const redirectUrl = await startLoopbackListener('pkce-result', jest.fn());
+    pendingStates({ [redirectUrl]: 's1' });
+    await get(`${redirectUrl}?code=c1&state=s1`);
+    await expect(get(`${redirectUrl}?code=c1&state=s1`)).rejects.toThrow();
+  });
+
+  it('stays open after a response with another state', async () => {
+    const onURL = jest.fn();
+    const redirectUrl = await startLoopbackListener('pkce-result', onURL);
+    pendingStates({ [redirectUrl]: 's1' });
+    expect(await get(`${redirectUrl}?code=c0&state=s0`)).toBe(400);
+    expect(await get(`${redirectUrl}?code=c0`)).toBe(400);
+    expect(onURL).not.toHaveBeenCalled();
+    expect(await get(`${redirectUrl}?code=c1&state=s1`)).toBe(200);
+    expect(onURL).toHaveBeenCalledWith(
+      'com.example.electron1:/pkce-result?code=c1&state=s1'
+    );
+  });
+
+  it('sends the fragment of an Implicit grant response', async () => {
+    const onURL = jest.fn();
+    const redirectUrl = await startLoopbackListener('implicit-result', onURL);
+    pendingStates({ [redirectUrl]: 's1' });
+    expect(await get(`${redirectUrl}/fragment?access_token=t1&state=s1`)).toBe(
+      200
+    );
+    expect(onURL).toHaveBeenCalledWith(
+      'com.example.electron1:/implicit-result#access_token=t1&state=s1'
+    );
+  });
+
+  it('fails the login after the timeout', async () => {
+    mockLoopbackTimeout = 0.01;
+    const appUrl = await new Promise<string>((resolve) => {
+      startLoopbackListener('pkce-result', (url) => resolve(url))
+        .then((url) => pendingStates({ [url]: 's1' }))
+        .catch(() => {});
+    });
+    expect(appUrl).toBe(
+      'com.example.electron1:/pkce-result?error=login_timeout&' +
+        'error_description=The+login+was+not+completed+within+0.01+seconds&state=s1'
+    );
+  });
+});
@@ -0,0 +1,107 @@
+import { BrowserWindow, MenuItemConstructorOptions } from 'electron';
+import MenuBuilder from '../menu';
+import { AuthState, loggedOutState, setAuthState } from '../auth-state';
+
+jest.mock('electron', () => ({}));
+
+const loggedIn: AuthState = {
+  status: 'logged-in',
+  name: 'Pat Example',
+  email: 'pat@example.com',
+  accountId: '7b3a1f62',
+  accounts: [
+    {
+      accountId: '7b3a1f62',
+      accountName: 'Example Account',
+      externalAccountId: 'b2c3d4e5f6',
+    },
+    {
+      accountId: '9c4d2e71',
+      accountName: 'Second Account',
+      externalAccountId: 'c3d4e5f6a7',
+    },
+  ],
+  expires: '2021-03-01T12:41:30Z',
+};
+
+const sendCommand = jest.fn();
+const menuBuilder = new MenuBuilder({} as BrowserWindow, {
+  sendCommand,
+  showSessionDetails: jest.fn(),
+});
+
+function item(label: string): MenuItemConstructorOptions {
+  const found = menuBuilder
+    .buildAccountSubmenu('Ctrl')
+    .find((menuItem) => menuItem.label === label);
+  if (!found) {
+    throw new Error(`No ${label} item`);
+  }
+  return found;
+}
+
+function enabledItems(): string[] {
+  return menuBuilder
+    .buildAccountSubmenu('Ctrl')
+    .filter((menuItem) => menuItem.label && menuItem.enabled)
+    .map((menuItem) => menuItem.label as string);
+}
+
+describe('buildAccountSubmenu', () => {
+  const { NODE_ENV } = process.env;
+
+  afterEach(() => {
+    process.env.NODE_ENV = NODE_ENV;
+    setAuthState(loggedOutState);
+    sendCommand.mockClear();
+  });
+
+  it('enables Log in when the user is logged out', () => {
+    setAuthState(loggedOutState);
+    expect(enabledItems()).toEqual(['Log in']);
+  });
+
+  it('disables the items while the user is logging in', () => {
+    setAuthState({ ...loggedOutState, status: 'logging-in' });
+    expect(enabledItems()).toEqual([]);
+  });
+
+  it('enables the session items when the user is logged in', () => {
+    setAuthState(loggedIn);
+    expect(enabledItems()).toEqual([
+      'Log out',
+      'Switch account',
+      'Show session details',
+    ]);
+  });
+
+  it('disables Switch account for a user with one account', () => {
+    setAuthState({ ...loggedIn, accounts: loggedIn.accounts.slice(0, 1) });
+    expect(item('Switch account').enabled).toBe(false);
+  });
+
+  it('sends the switch-account command for an account', () => {
+    setAuthState(loggedIn);
+    const accounts = item('Switch account')
+      .submenu as MenuItemConstructorOptions[];
+    expect(accounts.map((account) => account.checked)).toEqual([true, false]);
+    (accounts[1].click as () => void)();
+    expect(sendCommand).toHaveBeenCalledWith({
+      name: 'switch-account',
+      accountId: '9c4d2e71',
+    });
+  });
+
+  it('adds Copy access token to development builds', () => {
+    process.env.NODE_ENV = 'development';
+    setAuthState(loggedIn);
+    const copy = item('Copy access token');
+    expect(copy.enabled).toBe(true);
+    expect(copy.accelerator).toBe('Ctrl+Shift+T');
+    (copy.click as () => void)();
+    expect(sendCommand).toHaveBeenCalledWith({ name: 'copy-access-token' });
+
+    setAuthState(loggedOutState);
+    expect(item('Copy access token').enabled).toBe(false);
+  });
+});
@@ -0,0 +1,118 @@
+import { startNotifications, notifyDeepLink } from '../notifications';
+import { AuthEvent } from '../auth-journal';
+import { AuthState, loggedOutState, setAuthState } from '../auth-state';
+
+const mockShown: { title: string; body: string; click: () => void }[] = [];
+
+jest.mock('electron', () => ({
+  Notification: class {
+    static isSupported = () => true;
+
+    title: string;
+
+    body: string;
+
+    click: () => void = () => {};
+
+    constructor({ title, body }: { title: string; body: string }) {
+      this.title = title;
+      this.body = body;
+    }
+
+    on(_event: string, listener: () => void) {
+      this.click = listener;
+    }
+
+    show() {
+      mockShown.push(this);
+    }
+  },
+}));
+
+jest.mock('electron-log', () => ({ info: jest.fn() }));
+
+let mockAuthEventListener: (event: AuthEvent) => void;
+
+jest.mock('../auth-journal', () => ({
+  onAuthEvent: (listener: (event: AuthEvent) => void) => {
+    mockAuthEventListener = listener;
+  },
+}));
+
+let mockNotifications = 'on';
+
+jest.mock('../preferences', () => ({
+  loadPreferences: () => ({ notifications: mockNotifications }),
+}));
+
+let focused = false;
+const showRoute = jest.fn();
+
+function authEvent(type: AuthEvent['type'], reason: string): AuthEvent {
+  return { time: new Date().toISOString(), type, reason, profile: 'Default' };
+}
+
+const loggingIn: AuthState = { ...loggedOutState, status: 'logging-in' };
+
+describe('notifications', () => {
+  beforeAll(() => {
+    startNotifications({ windowFocused: () => focused, showRoute });
+  });
+
+  beforeEach(() => {
+    mockShown.length = 0;
+    focused = false;
+    mockNotifications = 'on';
+    showRoute.mockClear();
+    setAuthState(loggedOutState);
+  });
+
+  it('shows a completed login', () => {
+    mockAuthEventListener(authEvent('completed', 'Logged in as pat'));
+    expect(mockShown).toHaveLength(1);
+    expect(mockShown[0].body).toBe('Logged in as pat');
+    mockShown[0].click();
+    expect(showRoute).toHaveBeenCalledWith('/');
+  });
+
+  it('shows a rejected login response only during a login', () => {
+    mockAuthEventListener(authEvent('rejected', 'Unknown state'));
+    expect(mockShown).toHaveLength(0);
+    setAuthState(loggingIn);
+    mockAuthEventListener(authEvent('rejected', 'Unknown state'));
+    expect(mockShown).toHaveLength(1);
+  });
+
+  it('is quiet when the window has the focus', () => {
+    focused = true;
+    mockAuthEventListener(authEvent('completed', 'Logged in as pat'));
+    expect(mockShown).toHaveLength(0);
+  });
+
+  it('can be turned off', () => {
+    mockNotifications = 'off';
+    notifyDeepLink('/settings');
+    expect(mockShown).toHaveLength(0);
+  });
+
+  it("shows a deep link's route when clicked", () => {
+    notifyDeepLink('/settings');
+    mockShown[0].click();
+    expect(showRoute).toHaveBeenCalledWith('/settings');
+  });
+
+  it('warns before the session expires', () => {
+    jest.useFakeTimers();
+    setAuthState({
+      ...loggedOutState,
+      status: 'logged-in',
+      expires: new Date(Date.now() + 10 * 60 * 1000).toISOString(),
+    });
+    jest.advanceTimersByTime(4 * 60 * 1000);
+    expect(mockShown).toHaveLength(0);
+    jest.advanceTimersByTime(2 * 60 * 1000);
+    expect(mockShown).toHaveLength(1);
+    expect(mockShown[0].body).toBe('Your session will expire in 5 minutes.');
+    jest.useRealTimers();
+  });
+});
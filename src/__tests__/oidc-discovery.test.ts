@@ -0,0 +1,76 @@
+import { idpEndpoints, clearDiscoveryCache } from '../oidc-discovery';
+import { IdPProfile } from '../profile-store';
+
+jest.mock('../app-api', () => ({
+  log: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const issuer = 'https://idp.example.com';
+
+function profile(idpUrl: string): IdPProfile {
+  return { idpUrl } as IdPProfile;
+}
+
+function discoveryResponse(document: Record<string, string>) {
+  return {
+    ok: true,
+    statusText: 'OK',
+    json: () => Promise.resolve(document),
+  };
+}
+
+describe('idpEndpoints', () => {
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    clearDiscoveryCache();
+    fetchMock = jest.fn();
+    Object.assign(window, { fetch: fetchMock, Headers: jest.fn() });
+  });
+
+  it('ignores a trailing slash of the idpUrl', async () => {
+    fetchMock.mockResolvedValue(
+      discoveryResponse({
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+      })
+    );
+    const endpoints = await idpEndpoints(profile(`${issuer}/`));
+    expect(fetchMock).toHaveBeenCalledWith(
+      `${issuer}/.well-known/openid-configuration`,
+      expect.anything()
+    );
+    expect(endpoints.authorization).toBe(`${issuer}/authorize`);
+  });
+
+  it('uses one cached document for the idpUrl with and without a slash', async () => {
+    fetchMock.mockResolvedValue(
+      discoveryResponse({
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+      })
+    );
+    await idpEndpoints(profile(issuer));
+    const endpoints = await idpEndpoints(profile(`${issuer}/`));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(endpoints.issuer).toBe(issuer);
+  });
+
+  it('uses the DocuSign paths without a discovery document', async () => {
+    fetchMock.mockResolvedValue({ ok: false, statusText: 'Not Found' });
+    const endpoints = await idpEndpoints(profile(`${issuer}/`));
+    expect(endpoints.issuer).toBe(issuer);
+    expect(endpoints.token).toBe(`${issuer}/oauth/token`);
+  });
+
+  it('does not use a document of another issuer', async () => {
+    fetchMock.mockResolvedValue(
+      discoveryResponse({
+        issuer: 'https://other.example.com',
+        authorization_endpoint: 'https://other.example.com/authorize',
+      })
+    );
+    const endpoints = await idpEndpoints(profile(issuer));
+    expect(endpoints.authorization).toBe(`${issuer}/oauth/auth`);
+  });
+});
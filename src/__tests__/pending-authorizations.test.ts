@@ -0,0 +1,124 @@
+import {
+  addAuthorization,
+  consumeAuthorization,
+  clearAuthorizations,
+  pendingAuthorizationFor,
+  NewAuthorization,
+} from '../pending-authorizations';
+import { recordAuthEvent } from '../auth-journal';
+
+jest.mock('electron-log', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+}));
+
+jest.mock('../app-config', () => ({
+  appConfig: () => ({ authorizationMaxAge: 600 }),
+}));
+
+jest.mock('../profile-store', () => ({
+  activeProfile: () => ({ id: 'profile-1', authFlow: 'pkce' }),
+}));
+
+jest.mock('../auth-journal', () => ({ recordAuthEvent: jest.fn() }));
+
+function authorization(state: string): NewAuthorization {
+  return {
+    state,
+    nonce: `nonce-${state}`,
+    codeVerifier: `verifier-${state}`,
+    redirectUrl: 'com.example.electron1:/pkce-result',
+  };
+}
+
+describe('pending authorizations', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = Date.parse('2021-01-01T00:00:00Z');
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    (recordAuthEvent as jest.Mock).mockClear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns the login request for its state', () => {
+    addAuthorization(authorization('a1'));
+    const result = consumeAuthorization('a1');
+    expect(result).toEqual({
+      status: 'ok',
+      authorization: {
+        ...authorization('a1'),
+        profileId: 'profile-1',
+        created: now,
+      },
+    });
+    expect(recordAuthEvent).toHaveBeenCalledWith(
+      'login-started',
+      'Login started with the pkce flow'
+    );
+  });
+
+  it('keeps several pending logins', () => {
+    addAuthorization(authorization('b1'));
+    addAuthorization(authorization('b2'));
+    expect(consumeAuthorization('b2').status).toBe('ok');
+    expect(consumeAuthorization('b1').status).toBe('ok');
+  });
+
+  it('rejects a reused state', () => {
+    addAuthorization(authorization('c1'));
+    consumeAuthorization('c1');
+    expect(consumeAuthorization('c1')).toEqual({ status: 'reused' });
+    expect(recordAuthEvent).toHaveBeenLastCalledWith(
+      'rejected',
+      'OAuth state reused: the login request was already completed'
+    );
+  });
+
+  it('rejects an expired state', () => {
+    addAuthorization(authorization('d1'));
+    now += 600 * 1000 + 1;
+    expect(consumeAuthorization('d1')).toEqual({ status: 'expired' });
+    expect(consumeAuthorization('d1')).toEqual({ status: 'expired' });
+  });
+
+  it('removes the expired requests when a login starts', () => {
+    addAuthorization(authorization('e1'));
+    now += 600 * 1000 + 1;
+    addAuthorization(authorization('e2'));
+    expect(consumeAuthorization('e1')).toEqual({ status: 'expired' });
+    expect(consumeAuthorization('e2').status).toBe('ok');
+  });
+
+  it('accepts a state until it expires', () => {
+    addAuthorization(authorization('f1'));
+    now += 600 * 1000;
+    expect(consumeAuthorization('f1').status).toBe('ok');
+  });
+
+  it('rejects the state of a cancelled login', () => {
+    addAuthorization(authorization('g1'));
+    clearAuthorizations();
+    expect(consumeAuthorization('g1')).toEqual({ status: 'cancelled' });
+  });
+
+  it('rejects an unknown state', () => {
+    expect(consumeAuthorization('unknown')).toEqual({ status: 'unknown' });
+    expect(recordAuthEvent).toHaveBeenLastCalledWith(
+      'rejected',
+      'OAuth state mismatch: no login request has this state'
+    );
+  });
+
+  it('finds the pending login request of a redirect url', () => {
+    const loopback = 'http://127.0.0.1:5000/pkce-result';
+    addAuthorization({ ...authorization('h1'), redirectUrl: loopback });
+    expect(pendingAuthorizationFor(loopback)?.state).toBe('h1');
+    expect(consumeAuthorization('h1').status).toBe('ok');
+    expect(pendingAuthorizationFor(loopback)).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadPreferences, savePreferences } from '../preferences';
+
+const mockUserData = fs.mkdtempSync(path.join(os.tmpdir(), 'preferences-'));
+
+jest.mock('electron', () => ({ app: { getPath: () => mockUserData } }));
+
+jest.mock('electron-log', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+}));
+
+function storedPreferences() {
+  return JSON.parse(
+    fs.readFileSync(path.join(mockUserData, 'preferences.json'), 'utf8')
+  );
+}
+
+describe('savePreferences', () => {
+  afterAll(() => {
+    fs.rmdirSync(mockUserData, { recursive: true });
+  });
+
+  it('stores the allowed values', () => {
+    expect(savePreferences({ notifications: 'off' })).toEqual({
+      notifications: 'off',
+    });
+    expect(loadPreferences().notifications).toBe('off');
+    expect(storedPreferences()).toEqual({ notifications: 'off' });
+  });
+
+  it('ignores unknown preferences', () => {
+    savePreferences({ notifications: 'on', idpUrl: 'https://evil.example' });
+    expect(storedPreferences()).toEqual({ notifications: 'on' });
+  });
+
+  it('keeps the current value instead of an invalid value', () => {
+    savePreferences({ notifications: 'off' });
+    expect(savePreferences({ notifications: 'maybe' })).toEqual({
+      notifications: 'off',
+    });
+    expect(savePreferences({ notifications: 1 })).toEqual({
+      notifications: 'off',
+    });
+  });
+
+  it('ignores preferences that are not an object', () => {
+    savePreferences({ notifications: 'on' });
+    expect(savePreferences('off')).toEqual({ notifications: 'on' });
+    expect(savePreferences(null)).toEqual({ notifications: 'on' });
+  });
+});
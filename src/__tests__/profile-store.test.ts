@@ -0,0 +1,156 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AppConfig, resolveConfig } from '../app-config';
+import { IdPProfile } from '../profile-store';
+
+const mockUserData = fs.mkdtempSync(path.join(os.tmpdir(), 'profiles-'));
+const profilesFile = path.join(mockUserData, 'idp-profiles.json');
+
+jest.mock('electron', () => ({ app: { getPath: () => mockUserData } }));
+
+jest.mock('electron-log', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+}));
+
+jest.mock('../config', () => ({ __esModule: true, default: {} }));
+
+function configFor(idpUrl: string): AppConfig {
+  return resolveConfig([
+    {
+      name: 'src/config.js',
+      settings: {
+        schemeName: 'com.example.electron1',
+        schemeSlashCount: 1,
+        idpUrl,
+        implicitClientId: 'b2b5xxxx-xxxx-xxxx-xxxx-xxxxxxxxxx6b',
+      },
+    },
+  ]).config;
+}
+
+let mockConfig = configFor('https://account-d.docusign.com');
+
+jest.mock('../app-config', () => ({
+  ...(jest.requireActual('../app-config') as Record<string, unknown>),
+  appConfig: () => mockConfig,
+}));
+
+/**
+ * The profile store of a new run of the app
+ */
+function profileStore(): typeof import('../profile-store') {
+  let store: typeof import('../profile-store') | null = null;
+  jest.isolateModules(() => {
+    // eslint-disable-next-line global-require
+    store = require('../profile-store');
+  });
+  return (store as unknown) as typeof import('../profile-store');
+}
+
+function storedFile() {
+  return JSON.parse(fs.readFileSync(profilesFile, 'utf8'));
+}
+
+describe('profile store', () => {
+  let userProfile: IdPProfile;
+
+  beforeEach(() => {
+    if (fs.existsSync(profilesFile)) {
+      fs.unlinkSync(profilesFile);
+    }
+    mockConfig = configFor('https://account-d.docusign.com');
+    const { activeProfile } = profileStore();
+    userProfile = {
+      ...activeProfile(),
+      id: '',
+      name: 'Production',
+      idpUrl: 'https://account.docusign.com',
+    };
+  });
+
+  afterAll(() => {
+    fs.rmdirSync(mockUserData, { recursive: true });
+  });
+
+  it('creates the Default profile from the config', () => {
+    const { loadProfiles } = profileStore();
+    const { activeId, defaultId, profiles } = loadProfiles();
+    expect(activeId).toBe('default');
+    expect(defaultId).toBe('default');
+    expect(profiles.map((p) => [p.name, p.idpUrl])).toEqual([
+      ['Default', 'https://account-d.docusign.com'],
+    ]);
+  });
+
+  it('stores only the user profiles', () => {
+    const { saveProfile, selectProfile } = profileStore();
+    const { profile } = saveProfile(userProfile);
+    selectProfile(profile?.id || '');
+    expect(storedFile()).toEqual({
+      activeId: profile?.id,
+      profiles: [profile],
+    });
+  });
+
+  it('follows the config after the profiles were saved', () => {
+    const { saveProfile } = profileStore();
+    saveProfile(userProfile);
+    mockConfig = configFor('https://idp.example.com');
+    const { profiles } = profileStore().loadProfiles();
+    expect(profiles.map((p) => [p.name, p.idpUrl])).toEqual([
+      ['Default', 'https://idp.example.com'],
+      ['Production', 'https://account.docusign.com'],
+    ]);
+  });
+
+  it('ignores the Default profile stored by older versions', () => {
+    fs.writeFileSync(
+      profilesFile,
+      JSON.stringify({
+        activeId: 'default',
+        profiles: [{ ...userProfile, id: 'default', name: 'Default' }],
+      })
+    );
+    const { activeProfile } = profileStore();
+    expect(activeProfile().idpUrl).toBe('https://account-d.docusign.com');
+  });
+
+  it('uses the Default profile if the active profile is not valid', () => {
+    fs.writeFileSync(
+      profilesFile,
+      JSON.stringify({
+        activeId: 'p1',
+        profiles: [{ ...userProfile, id: 'p1', schemeName: 'not a scheme' }],
+      })
+    );
+    const { loadProfiles } = profileStore();
+    const { activeId, profiles } = loadProfiles();
+    expect(activeId).toBe('default');
+    expect(profiles).toHaveLength(2);
+  });
+
+  it('does not change or delete the Default profile', () => {
+    const { saveProfile, deleteProfile, loadProfiles } = profileStore();
+    const { profile, errors } = saveProfile({
+      ...loadProfiles().profiles[0],
+      idpUrl: 'https://idp.example.com',
+    });
+    expect(profile).toBeNull();
+    expect(errors).toEqual([
+      'The Default profile is created from the config settings. Create a new profile instead.',
+    ]);
+    deleteProfile('default');
+    expect(loadProfiles().profiles).toHaveLength(1);
+  });
+
+  it('activates the Default profile when the active one is deleted', () => {
+    const { saveProfile, selectProfile, deleteProfile } = profileStore();
+    const { profile } = saveProfile(userProfile);
+    selectProfile(profile?.id || '');
+    deleteProfile(profile?.id || '');
+    expect(profileStore().loadProfiles().activeId).toBe('default');
+  });
+});
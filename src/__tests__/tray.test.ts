@@ -0,0 +1,41 @@
+import { statusLines } from '../tray';
+import { AuthState, loggedOutState } from '../auth-state';
+
+jest.mock('electron', () => ({}));
+
+const now = new Date('2021-03-01T12:00:00Z');
+
+const loggedIn: AuthState = {
+  status: 'logged-in',
+  name: 'Pat Example',
+  email: 'pat@example.com',
+  accountId: '7b3a1f62',
+  accounts: [
+    {
+      accountId: '7b3a1f62',
+      accountName: 'Example Account',
+      externalAccountId: 'b2c3d4e5f6',
+    },
+  ],
+  expires: '2021-03-01T12:41:30Z',
+};
+
+describe('statusLines', () => {
+  it('shows the user, account and time until expiry', () => {
+    expect(statusLines(loggedIn, now)).toEqual([
+      'Pat Example',
+      'Example Account (b2c3d4e5f6)',
+      'Session expires in 42 min',
+    ]);
+  });
+
+  it('shows an expired session as 0 min', () => {
+    expect(
+      statusLines({ ...loggedIn, expires: '2021-03-01T11:00:00Z' }, now)
+    ).toContain('Session expires in 0 min');
+  });
+
+  it('shows a logged out user', () => {
+    expect(statusLines(loggedOutState, now)).toEqual(['Not logged in']);
+  });
+});
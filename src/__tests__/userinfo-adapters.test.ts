@@ -0,0 +1,80 @@
+import { userInfoAdapter } from '../userinfo-adapters';
+import { IdTokenClaims } from '../id-token';
+
+const idTokenClaims: IdTokenClaims = {
+  iss: 'https://idp.example.com',
+  sub: 'user-1',
+  aud: 'client-1',
+  exp: 1614602490,
+  given_name: 'Pat',
+  family_name: 'Example',
+  email: 'pat@example.com',
+};
+
+describe('userInfoAdapter', () => {
+  it('maps the DocuSign userinfo response', () => {
+    const adapter = userInfoAdapter('docusign');
+    expect(adapter.usesUserInfo).toBe(true);
+    expect(
+      adapter.toUserDetails(
+        {
+          sub: 'user-1',
+          name: 'Pat Example',
+          email: 'pat@example.com',
+          accounts: [
+            {
+              account_id: '7b3a1f62-xxxx-xxxx-xxxx-b2c3d4e5f6a7',
+              account_name: 'Example Account',
+              base_uri: 'https://demo.docusign.net',
+              is_default: true,
+            },
+          ],
+        },
+        null
+      )
+    ).toEqual({
+      name: 'Pat Example',
+      email: 'pat@example.com',
+      accounts: [
+        {
+          accountId: '7b3a1f62-xxxx-xxxx-xxxx-b2c3d4e5f6a7',
+          externalAccountId: 'c3d4e5f6a7',
+          accountName: 'Example Account',
+          baseUri: 'https://demo.docusign.net',
+          isDefault: true,
+        },
+      ],
+    });
+  });
+
+  it('maps the standard claims of an OIDC userinfo response', () => {
+    const adapter = userInfoAdapter('oidc-userinfo');
+    expect(adapter.usesUserInfo).toBe(true);
+    expect(
+      adapter.toUserDetails(
+        { sub: 'user-1', preferred_username: 'pat', email: 'pat@example.com' },
+        null
+      )
+    ).toEqual({ name: 'pat', email: 'pat@example.com', accounts: [] });
+  });
+
+  it("maps the id_token's claims", () => {
+    const adapter = userInfoAdapter('oidc-id-token');
+    expect(adapter.usesUserInfo).toBe(false);
+    expect(adapter.toUserDetails(null, idTokenClaims)).toEqual({
+      name: 'Pat Example',
+      email: 'pat@example.com',
+      accounts: [],
+    });
+  });
+
+  it('uses the DocuSign adapter if none is set', () => {
+    expect(userInfoAdapter(undefined).name).toBe('docusign');
+  });
+
+  it('throws for an unknown adapter', () => {
+    expect(() => userInfoAdapter('okta')).toThrow(
+      'There is no okta userinfo adapter'
+    );
+  });
+});
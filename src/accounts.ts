@@ -0,0 +1,52 @@
+/**
+ * The user's accounts.
+ * A user may be a member of several accounts. The account
+ * the user last chose is remembered per user in the
+ * renderer's localStorage.
+ */
+
+const storageKey = 'chosenAccounts';
+
+/**
+ * An account that the user can use
+ */
+export interface UserAccount {
+  readonly accountId: string;
+  readonly externalAccountId: string;
+  readonly accountName: string;
+  readonly baseUri: string;
+  readonly isDefault: boolean;
+}
+
+function chosenAccounts(): Record<string, string> {
+  try {
+    return JSON.parse(window.localStorage.getItem(storageKey) || '{}');
+  } catch (e) {
+    return {};
+  }
+}
+
+/**
+ * The account the user last chose
+ * @param user the user's email or other unique id
+ * @param accounts the user's current accounts
+ * @returns the account or undefined if there is no (longer a) choice
+ */
+export function rememberedAccount(
+  user: string,
+  accounts: ReadonlyArray<UserAccount>
+): UserAccount | undefined {
+  const accountId = chosenAccounts()[user];
+  return accounts.find((acc) => acc.accountId === accountId);
+}
+
+/**
+ * Remember the user's choice of account
+ * @param user the user's email or other unique id
+ * @param accountId the chosen account
+ */
+export function rememberAccount(user: string, accountId: string) {
+  const choices = chosenAccounts();
+  choices[user] = accountId;
+  window.localStorage.setItem(storageKey, JSON.stringify(choices));
+}
@@ -0,0 +1,125 @@
+/**
+ * The API that the preload script (preload.js) exposes to the
+ * renderer as window.appApi.
+ *
+ * The renderer runs with contextIsolation and without Node
+ * integration. It can only reach the main process via these methods.
+ * Renderer modules must not import electron, electron-log or
+ * Node modules. (Importing their types is fine.)
+ */
+import { URLActionType } from './parse-app-url';
+import { ISession } from './session-store';
+import { IdPProfile, IProfiles, ProfileSaveResult } from './profile-store';
+import { ProtocolStatus } from './linux-protocol';
+import { NewAuthorization, ConsumeResult } from './pending-authorizations';
+import { AuthEvent, AuthEventType, AuthEventsExport } from './auth-journal';
+import { AuthState, AuthCommand } from './auth-state';
+import { Preferences } from './preferences';
+
+export type LogLevel = 'info' | 'warn' | 'error';
+
+export interface AppApi {
+  /**
+   * Subscribe to the url actions sent by the main process
+   * @returns a function that ends the subscription
+   */
+  onUrlAction(listener: (action: URLActionType) => void): () => void;
+  /**
+   * Report that the renderer is listening for url actions.
+   * The main process then sends the actions that it queued.
+   */
+  urlActionsReady(): void;
+  /**
+   * Open the IdP's authorization url in the user's browser
+   */
+  startLogin(authorizationUrl: string): void;
+  /**
+   * Start the loopback redirect listener
+   * @returns the listener's redirect url
+   */
+  startLoopback(returnPath: string): Promise<string>;
+  // Also forgets the pending login requests
+  cancelLogin(): void;
+  /**
+   * Store a login request. See pending-authorizations.ts
+   */
+  addAuthorization(authorization: NewAuthorization): Promise<void>;
+  /**
+   * Find and remove the login request for an IdP response
+   * @param state the response's state value
+   */
+  consumeAuthorization(state: string): Promise<ConsumeResult>;
+  /**
+   * Clear the renderer's Electron session storage: cookies,
+   * caches, etc. See main.dev.ts
+   * @param everywhere also clear localStorage, eg the remembered accounts
+   */
+  clearStorage(everywhere: boolean): Promise<void>;
+  /**
+   * Open the IdP's end_session url in the user's browser
+   */
+  endSession(endSessionUrl: string): void;
+  loadSession(): Promise<ISession | null>;
+  saveSession(session: ISession): void;
+  clearSession(): void;
+  activeProfile(): Promise<IdPProfile>;
+  getProfiles(): Promise<IProfiles>;
+  /**
+   * Save a profile. It is checked by the main process.
+   * See profile-store.ts
+   */
+  saveProfile(profile: IdPProfile): Promise<ProfileSaveResult>;
+  deleteProfile(id: string): Promise<void>;
+  selectProfile(id: string): Promise<void>;
+  /**
+   * Record an authentication event. See auth-journal.ts
+   * @param reason what happened. Secrets are redacted.
+   */
+  recordAuthEvent(type: AuthEventType, reason: string): void;
+  // The recorded authentication events, oldest first
+  authEvents(): Promise<AuthEvent[]>;
+  clearAuthEvents(): Promise<void>;
+  /**
+   * Save the authentication events to a JSON file chosen by the user
+   * @returns the file's path, or the problem if it could not be written
+   */
+  exportAuthEvents(): Promise<AuthEventsExport>;
+  /**
+   * Report the auth state to the main process, for its tray icon.
+   * See auth-state.ts
+   */
+  setAuthState(state: AuthState): void;
+  /**
+   * Subscribe to the auth commands sent by the main process,
+   * eg from the tray icon's menu
+   * @returns a function that ends the subscription
+   */
+  onAuthCommand(listener: (command: AuthCommand) => void): () => void;
+  /**
+   * Report that the renderer is listening for auth commands.
+   * The main process then sends the commands that it queued.
+   */
+  authCommandsReady(): void;
+  getPreferences(): Promise<Preferences>;
+  savePreferences(preferences: Preferences): Promise<Preferences>;
+  // Diagnostic: are the profiles' schemes bound to this app?
+  protocolStatus(): Promise<ProtocolStatus[]>;
+  // Write to the main process's electron-log
+  log(level: LogLevel, message: string): void;
+}
+
+declare global {
+  interface Window {
+    appApi: AppApi;
+  }
+}
+
+/**
+ * Logging for renderer modules.
+ * The messages are written by electron-log in the main process.
+ */
+export const log = {
+  info: (message: string) => window.appApi.log('info', message),
+  warn: (message: string) => window.appApi.log('warn', message),
+  error: (message: string) => window.appApi.log('error', message),
+};
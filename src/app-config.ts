@@ -0,0 +1,381 @@
+/**
+ * The app's typed and validated configuration.
+ *
+ * Main process functions. The settings are merged from, lowest
+ * priority first:
+ *   1. The defaults in the schema below
+ *   2. src/config.js
+ *   3. The src/config.js preset for the environment (development,
+ *      staging or production)
+ *   4. The user's config.json file in the app's userData directory
+ *   5. Environment variables, eg APP_CONFIG_IDP_URL
+ * The merged settings are validated when the main process starts.
+ * See README_OAuth.md
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { app } from 'electron';
+import log from 'electron-log'; // https://www.npmjs.com/package/electron-log
+import config from './config';
+
+const userConfigFileName = 'config.json';
+const envPrefix = 'APP_CONFIG_';
+const presetNames = ['development', 'staging', 'production'];
+
+export interface AppConfig {
+  readonly schemeName: string;
+  readonly schemeSlashCount: number; // 1 or 2
+  readonly idpUrl: string;
+  readonly authFlow: string; // 'implicit' or 'pkce'
+  readonly implicitClientId: string;
+  readonly implicitReturnPath: string;
+  readonly implicitScopes: string;
+  readonly implicitRedirectUrl: string;
+  readonly pkceClientId: string;
+  readonly pkceReturnPath: string;
+  readonly pkceScopes: string;
+  readonly pkceRedirectUrl: string;
+  readonly redirectMode: string; // 'scheme' or 'loopback'
+  readonly loopbackTimeout: number; // seconds
+  readonly urlActionMaxAge: number; // seconds
+  readonly authorizationMaxAge: number; // seconds
+  readonly oidcMode: string; // 'off' or 'on'
+  readonly userInfoAdapter: string; // see userinfo-adapters.ts
+  readonly logoutRevocation: string; // 'off' or 'on'
+  readonly logoutEndSession: string; // 'off' or 'on'
+  readonly closeToTray: string; // 'off' or 'on'
+  readonly authorizationEndpoint: string;
+  readonly tokenEndpoint: string;
+  readonly userinfoEndpoint: string;
+  readonly revocationEndpoint: string;
+  readonly endSessionEndpoint: string;
+}
+
+// A source of settings, eg the user's config.json file
+export type ConfigSource = {
+  readonly name: string; // used in the error messages
+  readonly settings: { [key: string]: unknown };
+};
+
+type Setting<T> = {
+  readonly default: T;
+  readonly required?: boolean;
+  readonly values?: readonly T[];
+  // Returns a problem with the value, or null
+  readonly check?: (value: T) => string | null;
+};
+
+type Schema = { readonly [K in keyof AppConfig]: Setting<AppConfig[K]> };
+
+/**
+ * Check that the value is an http(s) url
+ * @param optional an empty value is allowed
+ */
+function urlCheck(optional: boolean) {
+  return (value: string): string | null => {
+    if (optional && !value) {
+      return null; // EARLY RETURN
+    }
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch (e) {
+      return 'is not a valid url'; // EARLY RETURN
+    }
+    return url.protocol === 'https:' || url.protocol === 'http:'
+      ? null
+      : 'must be an http or https url';
+  };
+}
+
+function positiveInteger(value: number): string | null {
+  return Number.isInteger(value) && value > 0
+    ? null
+    : 'must be a positive whole number';
+}
+
+// The return paths are matched exactly. See parse-app-url.ts
+function returnPathCheck(value: string): string | null {
+  return /^[a-zA-Z0-9._~-]+(\/[a-zA-Z0-9._~-]+)*$/.test(value)
+    ? null
+    : 'must be a path such as implicit-result';
+}
+
+const onOff = ['off', 'on'] as const;
+
+const schema: Schema = {
+  schemeName: {
+    default: '',
+    required: true,
+    // RFC 3986 sec 3.1
+    check: (value) =>
+      /^[a-zA-Z][a-zA-Z0-9+.-]*$/.test(value)
+        ? null
+        : 'is not a valid url scheme',
+  },
+  schemeSlashCount: { default: 1, values: [1, 2] },
+  // A trailing slash is allowed, OIDC discovery ignores it.
+  // See oidc-discovery.ts
+  idpUrl: { default: '', required: true, check: urlCheck(false) },
+  authFlow: { default: 'implicit', values: ['implicit', 'pkce'] },
+  implicitClientId: { default: '' },
+  implicitReturnPath: { default: 'implicit-result', check: returnPathCheck },
+  implicitScopes: { default: '' },
+  implicitRedirectUrl: { default: '', check: urlCheck(true) },
+  pkceClientId: { default: '' },
+  pkceReturnPath: { default: 'pkce-result', check: returnPathCheck },
+  pkceScopes: { default: '' },
+  pkceRedirectUrl: { default: '', check: urlCheck(true) },
+  redirectMode: { default: 'scheme', values: ['scheme', 'loopback'] },
+  loopbackTimeout: { default: 5 * 60, check: positiveInteger },
+  urlActionMaxAge: { default: 2 * 60, check: positiveInteger },
+  authorizationMaxAge: { default: 10 * 60, check: positiveInteger },
+  oidcMode: { default: 'off', values: onOff },
+  // The adapters of userinfo-adapters.ts
+  userInfoAdapter: {
+    default: 'docusign',
+    values: ['docusign', 'oidc-userinfo', 'oidc-id-token'],
+  },
+  logoutRevocation: { default: 'off', values: onOff },
+  logoutEndSession: { default: 'off', values: onOff },
+  closeToTray: { default: 'off', values: onOff },
+  authorizationEndpoint: { default: '', check: urlCheck(true) },
+  tokenEndpoint: { default: '', check: urlCheck(true) },
+  userinfoEndpoint: { default: '', check: urlCheck(true) },
+  revocationEndpoint: { default: '', check: urlCheck(true) },
+  endSessionEndpoint: { default: '', check: urlCheck(true) },
+};
+
+const settingNames = Object.keys(schema) as (keyof AppConfig)[];
+
+/**
+ * The environment variable for a setting.
+ * Eg, idpUrl is set by APP_CONFIG_IDP_URL
+ */
+export function envName(setting: string): string {
+  return `${envPrefix}${setting.replace(/([A-Z])/g, '_$1').toUpperCase()}`;
+}
+
+/**
+ * The settings from the environment variables. The values of
+ * numeric settings are converted to numbers.
+ * @param env eg process.env
+ */
+export function envSource(env: NodeJS.ProcessEnv): ConfigSource {
+  const settings: { [key: string]: unknown } = {};
+  settingNames.forEach((setting) => {
+    const value = env[envName(setting)];
+    if (value !== undefined) {
+      settings[setting] =
+        typeof schema[setting].default === 'number' && /^\d+$/.test(value)
+          ? parseInt(value, 10)
+          : value;
+    }
+  });
+  return { name: 'the environment variables', settings };
+}
+
+/**
+ * The name of the src/config.js preset for this run
+ * @param env eg process.env
+ */
+export function presetName(env: NodeJS.ProcessEnv): string {
+  return (
+    env[`${envPrefix}PRESET`] ||
+    (env.NODE_ENV === 'development' ? 'development' : 'production')
+  );
+}
+
+/**
+ * The settings from src/config.js and its preset
+ * @param file the src/config.js settings
+ * @param preset the name of the preset
+ */
+export function fileSources(
+  file: { [key: string]: unknown },
+  preset: string
+): ConfigSource[] {
+  const { presets, ...settings } = file;
+  const sources: ConfigSource[] = [{ name: 'src/config.js', settings }];
+  if (presets === undefined) {
+    return sources; // EARLY RETURN
+  }
+  const presetSettings = (presets as { [name: string]: unknown })[preset];
+  if (presetSettings === undefined) {
+    return sources; // EARLY RETURN
+  }
+  return [
+    ...sources,
+    {
+      name: `the src/config.js ${preset} preset`,
+      settings: presetSettings as { [key: string]: unknown },
+    },
+  ];
+}
+
+/**
+ * Merge and validate the settings
+ * @param sources the sources, lowest priority first
+ * @returns the settings and a list of the problems
+ */
+export function resolveConfig(
+  sources: ConfigSource[]
+): { config: AppConfig; errors: string[] } {
+  const errors: string[] = [];
+  const merged: { [key: string]: unknown } = {};
+  settingNames.forEach((setting) => {
+    merged[setting] = schema[setting].default;
+  });
+  sources.forEach(({ name, settings }) => {
+    if (
+      typeof settings !== 'object' ||
+      settings === null ||
+      Array.isArray(settings)
+    ) {
+      errors.push(`The settings in ${name} must be an object.`);
+      return;
+    }
+    Object.keys(settings).forEach((key) => {
+      const value = settings[key];
+      if (!(key in schema)) {
+        errors.push(`Unknown setting ${key} in ${name}.`);
+      } else if (
+        typeof value !== typeof schema[key as keyof AppConfig].default
+      ) {
+        errors.push(
+          `The ${key} setting in ${name} must be a ${typeof schema[
+            key as keyof AppConfig
+          ].default}, not ${JSON.stringify(value)}.`
+        );
+      } else {
+        merged[key] = value;
+      }
+    });
+  });
+
+  const result = (merged as unknown) as AppConfig;
+  settingNames.forEach((setting) => {
+    const spec = schema[setting] as Setting<unknown>;
+    const value = result[setting];
+    if (spec.required && !value) {
+      errors.push(`The ${setting} setting is required.`);
+      return;
+    }
+    if (spec.values && !spec.values.includes(value)) {
+      errors.push(
+        `The ${setting} setting must be one of ${spec.values
+          .map((v) => JSON.stringify(v))
+          .join(', ')}.`
+      );
+      return;
+    }
+    const problem = spec.check && value !== '' ? spec.check(value) : null;
+    if (problem) {
+      errors.push(`The ${setting} setting ${problem}: ${value}`);
+    }
+  });
+
+  // The settings that depend on each other
+  if (result.authFlow === 'implicit' && !result.implicitClientId) {
+    errors.push(
+      'The implicitClientId setting is required for authFlow implicit.'
+    );
+  }
+  if (result.authFlow === 'pkce' && !result.pkceClientId) {
+    errors.push('The pkceClientId setting is required for authFlow pkce.');
+  }
+  // The timeout fails the login with the pending login request's
+  // state, so the request must not expire first. See loopback-redirect.ts
+  if (result.loopbackTimeout > result.authorizationMaxAge) {
+    errors.push(
+      'The loopbackTimeout setting must not be greater than the authorizationMaxAge setting.'
+    );
+  }
+  if (result.implicitReturnPath === result.pkceReturnPath) {
+    errors.push(
+      'The implicitReturnPath and pkceReturnPath settings must be different.'
+    );
+  }
+  return { config: result, errors };
+}
+
+/**
+ * Check settings that were not read from the config sources, eg an
+ * IdP profile made on the Settings page, with the same rules.
+ * Their other attributes are ignored.
+ * @param name used in the error messages
+ * @param settings the settings to check
+ * @returns the problems
+ */
+export function settingsErrors(
+  name: string,
+  settings: { [key: string]: unknown }
+): string[] {
+  const known: { [key: string]: unknown } = {};
+  Object.keys(settings)
+    .filter((key) => key in schema)
+    .forEach((key) => {
+      known[key] = settings[key];
+    });
+  return resolveConfig([{ name, settings: known }]).errors;
+}
+
+/**
+ * Read the user's config.json file, if any
+ * @param errors the problem reading the file is added
+ */
+function userSource(errors: string[]): ConfigSource | null {
+  const filePath = path.join(app.getPath('userData'), userConfigFileName);
+  try {
+    return {
+      name: filePath,
+      settings: JSON.parse(fs.readFileSync(filePath, 'utf8')),
+    };
+  } catch (e) {
+    if (e.code !== 'ENOENT') {
+      errors.push(`Problem reading ${filePath}: ${e.message}`);
+    }
+    return null;
+  }
+}
+
+let cache: { config: AppConfig; errors: string[] } | null = null;
+
+function loadConfig(): { config: AppConfig; errors: string[] } {
+  if (cache) {
+    return cache; // EARLY RETURN
+  }
+  const errors: string[] = [];
+  const preset = presetName(process.env);
+  if (!presetNames.includes(preset)) {
+    errors.push(
+      `The ${envPrefix}PRESET environment variable must be one of ${presetNames.join(
+        ', '
+      )}.`
+    );
+  }
+  const user = userSource(errors);
+  const resolved = resolveConfig([
+    ...fileSources((config as unknown) as { [key: string]: unknown }, preset),
+    ...(user ? [user] : []),
+    envSource(process.env),
+  ]);
+  cache = { config: resolved.config, errors: [...errors, ...resolved.errors] };
+  log.info(`Configuration preset: ${preset}`);
+  return cache;
+}
+
+/**
+ * The app's settings
+ */
+export function appConfig(): AppConfig {
+  return loadConfig().config;
+}
+
+/**
+ * The problems with the settings. Checked at startup by main.dev.ts
+ */
+export function appConfigErrors(): string[] {
+  return loadConfig().errors;
+}
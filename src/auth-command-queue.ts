@@ -0,0 +1,47 @@
+/**
+ * A queue for the auth commands that are sent to the renderer.
+ *
+ * Main process functions. A command can be sent before the renderer
+ * can receive it: eg the tray's Login item creates the window (macOS)
+ * and sends the login command at once. Like the url actions (see
+ * url-action-queue.ts), the commands are kept until the renderer
+ * reports that it is listening. Commands that waited too long
+ * are dropped.
+ */
+
+import { WebContents } from 'electron';
+import { AuthCommand } from './auth-state';
+import ReadyQueue from './ready-queue';
+
+// A login command should not start a login long after the click
+const maxAge = 60 * 1000; // ms
+
+const queue = new ReadyQueue<AuthCommand>(
+  'auth-command',
+  'auth command',
+  () => maxAge
+);
+
+/**
+ * Send a command to the renderer now or when it is ready
+ * @param command the auth command
+ */
+export function sendAuthCommand(command: AuthCommand) {
+  queue.send(command);
+}
+
+/**
+ * The renderer is listening for auth commands
+ * @param webContents the renderer
+ */
+export function authCommandsReady(webContents: WebContents) {
+  queue.ready(webContents);
+}
+
+/**
+ * The renderer is (re)loading or closed. Keep the commands
+ * until it is ready again.
+ */
+export function authCommandsNotReady() {
+  queue.notReady();
+}
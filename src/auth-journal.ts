@@ -0,0 +1,168 @@
+/**
+ * The authentication event journal.
+ *
+ * Main process functions. The important authentication events
+ * (a login was started, a callback was received or rejected, the
+ * login completed, logout, the session expired or was rejected by an
+ * API) are recorded with
+ * their time and reason, so users and support staff can see them on
+ * the Authentication events page. Tokens and other secrets are
+ * redacted before an event is stored.
+ * The journal is stored in the app's userData directory.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { app, BrowserWindow, dialog } from 'electron';
+import log from 'electron-log'; // https://www.npmjs.com/package/electron-log
+import { activeProfile } from './profile-store';
+
+const journalFileName = 'auth-events.json';
+// The oldest events are removed
+const journalLimit = 500;
+
+export const authEventTypes = [
+  'login-started',
+  'callback-received',
+  'rejected',
+  'completed',
+  'logout',
+  'expired',
+  'session-rejected',
+] as const;
+
+export type AuthEventType = typeof authEventTypes[number];
+
+export interface AuthEvent {
+  readonly time: string; // ISO date
+  readonly type: AuthEventType;
+  readonly reason: string;
+  readonly profile: string; // the IdP profile's name
+}
+
+// The result of an export. Both are null if the user cancelled
+export interface AuthEventsExport {
+  readonly filePath: string | null;
+  readonly error: string | null;
+}
+
+const listeners = new Set<(event: AuthEvent) => void>();
+
+let cache: AuthEvent[] | null = null;
+
+function journalFilePath(): string {
+  return path.join(app.getPath('userData'), journalFileName);
+}
+
+/**
+ * Remove the tokens and other secrets from a text
+ * @param text eg, a url or a log message
+ */
+export function redact(text: string): string {
+  return text
+    .replace(/\beyJ[\w-]*\.[\w-]*\.[\w-]*/g, '[redacted]') // JWTs
+    .replace(/\b(Bearer\s+)[\w.~+/-]+=*/gi, '$1[redacted]')
+    .replace(
+      /\b(access_token|refresh_token|id_token|code|code_verifier|nonce|token)=[^&#\s]*/gi,
+      '$1=[redacted]'
+    );
+}
+
+/**
+ * The recorded events, oldest first
+ */
+export function authEvents(): AuthEvent[] {
+  if (cache) {
+    return cache; // EARLY RETURN
+  }
+  try {
+    cache = JSON.parse(fs.readFileSync(journalFilePath(), 'utf8'));
+  } catch (e) {
+    if (e.code !== 'ENOENT') {
+      log.error(`Problem reading the authentication events: ${e}`);
+    }
+  }
+  if (!Array.isArray(cache)) {
+    cache = [];
+  }
+  return cache;
+}
+
+function writeJournal(events: AuthEvent[]) {
+  cache = events;
+  try {
+    fs.writeFileSync(journalFilePath(), JSON.stringify(events, null, 2), {
+      mode: 0o600,
+    });
+  } catch (e) {
+    log.error(`Problem saving the authentication events: ${e}`);
+  }
+}
+
+/**
+ * Record an authentication event
+ * @param type the event's type
+ * @param reason what happened. Secrets are redacted.
+ */
+export function recordAuthEvent(type: AuthEventType, reason: string) {
+  if (!authEventTypes.includes(type)) {
+    log.error(`Unknown authentication event type: ${type}`);
+    return;
+  }
+  const event: AuthEvent = {
+    time: new Date().toISOString(),
+    type,
+    reason: redact(String(reason)),
+    profile: activeProfile().name,
+  };
+  writeJournal([...authEvents(), event].slice(-journalLimit));
+  listeners.forEach((listener) => listener(event));
+}
+
+/**
+ * Subscribe to the recorded events, eg for the notifications.
+ * The events' secrets are already redacted.
+ * @returns a function that ends the subscription
+ */
+export function onAuthEvent(listener: (event: AuthEvent) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Delete the recorded events
+ */
+export function clearAuthEvents() {
+  writeJournal([]);
+}
+
+/**
+ * Save the events to a JSON file chosen by the user
+ * @param window the parent window of the save dialog
+ * @returns the file's path, or the problem if it could not be written
+ */
+export async function exportAuthEvents(
+  window: BrowserWindow | null
+): Promise<AuthEventsExport> {
+  const options = {
+    title: 'Export the authentication events',
+    defaultPath: path.join(app.getPath('downloads'), journalFileName),
+    filters: [{ name: 'JSON', extensions: ['json'] }],
+  };
+  const { canceled, filePath } = window
+    ? await dialog.showSaveDialog(window, options)
+    : await dialog.showSaveDialog(options);
+  if (canceled || !filePath) {
+    return { filePath: null, error: null }; // EARLY RETURN
+  }
+  try {
+    fs.writeFileSync(filePath, JSON.stringify(authEvents(), null, 2));
+  } catch (e) {
+    log.error(`Problem exporting the authentication events: ${e}`);
+    return { filePath: null, error: String(e) }; // EARLY RETURN
+  }
+  log.info(`Exported the authentication events to ${filePath}`);
+  return { filePath, error: null };
+}
@@ -0,0 +1,91 @@
+/**
+ * The renderer's authentication state, for the main process.
+ *
+ * Main process functions. The renderer reports its auth state when
+ * it changes. The tray icon (see tray.ts) shows it. The main process
+ * sends auth commands, eg from the tray's menu, to the renderer.
+ * The state does not include the access token.
+ */
+
+// 'loading' until the session saved by a prior run was checked.
+// 'logging-in' while the user is logging in via the browser.
+export type AuthStatus = 'loading' | 'logged-out' | 'logging-in' | 'logged-in';
+
+export interface AuthStateAccount {
+  readonly accountId: string;
+  readonly accountName: string;
+  readonly externalAccountId: string;
+}
+
+export interface AuthState {
+  readonly status: AuthStatus;
+  readonly name: string | null;
+  readonly email: string | null;
+  readonly accountId: string | null;
+  readonly accounts: AuthStateAccount[];
+  readonly expires: string | null; // ISO date
+}
+
+// Commands for the renderer's App
+export type AuthCommand =
+  | { readonly name: 'login' }
+  | { readonly name: 'logout' }
+  | { readonly name: 'switch-account'; readonly accountId: string }
+  // Development builds only. See menu.ts
+  | { readonly name: 'copy-access-token' };
+
+export const loggedOutState: AuthState = {
+  status: 'logged-out',
+  name: null,
+  email: null,
+  accountId: null,
+  accounts: [],
+  expires: null,
+};
+
+let current: AuthState = loggedOutState;
+const listeners = new Set<(state: AuthState) => void>();
+
+export function authState(): AuthState {
+  return current;
+}
+
+/**
+ * Store the renderer's auth state and tell the listeners
+ * @param state the state reported by the renderer
+ */
+export function setAuthState(state: AuthState) {
+  current = state;
+  listeners.forEach((listener) => listener(state));
+}
+
+/**
+ * Subscribe to the auth state's changes
+ * @returns a function that ends the subscription
+ */
+export function onAuthStateChange(
+  listener: (state: AuthState) => void
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * The minutes until the session expires, or null.
+ * Rounded up, like the renderer's SessionTimer
+ * @param now for tests
+ */
+export function minutesLeft(
+  state: AuthState,
+  now: Date = new Date()
+): number | null {
+  if (state.status !== 'logged-in' || !state.expires) {
+    return null; // EARLY RETURN
+  }
+  return Math.max(
+    0,
+    Math.ceil((new Date(state.expires).getTime() - now.getTime()) / (60 * 1000))
+  );
+}
@@ -1,6 +1,8 @@
 // Copy this file to config.js and update the settings.
 // Don't store config.js in your repo!
 // See the README_OAuth.md file for more information
+// These settings are used for the app's Default IdP profile.
+// The settings are checked when the app starts. See app-config.ts
 
 // Example settings
 const config = {
@@ -11,6 +13,41 @@ const config = {
   implicitReturnPath: 'implicit-result',
   implicitScopes: 'signature',
   implicitRedirectUrl: 'http://xxx.s3-website.us-east-2.amazonaws.com/',
+  authFlow: 'implicit', // 'implicit' or 'pkce'
+  pkceClientId: 'c3c6xxxx-xxxx-xxxx-xxxx-xxxxxxxxxx7c',
+  pkceReturnPath: 'pkce-result',
+  pkceScopes: 'signature',
+  pkceRedirectUrl: '',
+  redirectMode: 'scheme', // 'scheme' or 'loopback'
+  loopbackTimeout: 300, // seconds
+  urlActionMaxAge: 120, // seconds
+  authorizationMaxAge: 600, // seconds
+  oidcMode: 'off', // 'off' or 'on'
+  userInfoAdapter: 'docusign', // 'docusign', 'oidc-userinfo' or 'oidc-id-token'
+  logoutRevocation: 'off', // 'off' or 'on'
+  logoutEndSession: 'off', // 'off' or 'on'
+  closeToTray: 'off', // 'off' or 'on'
+  // Optional endpoint overrides. Leave empty to use OIDC discovery
+  authorizationEndpoint: '',
+  tokenEndpoint: '',
+  userinfoEndpoint: '',
+  revocationEndpoint: '',
+  endSessionEndpoint: '',
+  // Optional. Settings for each environment. They override the
+  // settings above. The preset is chosen by the APP_CONFIG_PRESET
+  // environment variable. Default: development with `yarn start`,
+  // otherwise production.
+  presets: {
+    development: {},
+    staging: {
+      schemeName: 'com.example.electron1.staging',
+    },
+    production: {
+      idpUrl: 'https://account.docusign.com',
+      implicitClientId: 'd4e5xxxx-xxxx-xxxx-xxxx-xxxxxxxxxx8a',
+      pkceClientId: 'e5f6xxxx-xxxx-xxxx-xxxx-xxxxxxxxxx9b',
+    },
+  },
 };
 
 export default config;
@@ -0,0 +1,127 @@
+/**
+ * Deep-link actions for the app's private URL scheme.
+ *
+ * Main process functions. Modules register the actions that
+ * links from emails and web pages can start, eg
+ * com.example.electron1:/settings
+ * Each action has a path pattern and an optional parameter parser.
+ * A matched action is sent to the renderer which shows the
+ * action's react-router route.
+ */
+
+import log from 'electron-log'; // https://www.npmjs.com/package/electron-log
+
+export type DeepLinkParams = { [name: string]: string };
+
+export interface DeepLinkActionDefinition<P extends DeepLinkParams> {
+  readonly name: string;
+  // The url's path. Segments that start with : are parameters.
+  // Eg 'open/:id'
+  readonly path: string;
+  /**
+   * Optional. Validate and convert the parameters.
+   * @param pathParams the path's parameters
+   * @param query the url's query parameters
+   * @returns the action's parameters or null to reject the url
+   */
+  readonly parseParams?: (
+    pathParams: DeepLinkParams,
+    query: URLSearchParams
+  ) => P | null;
+  /**
+   * The renderer route for the action
+   * @param params the action's parameters
+   */
+  readonly route: (params: P) => string;
+}
+
+export interface IDeepLinkAction {
+  readonly name: 'deep-link';
+  readonly action: string;
+  readonly params: DeepLinkParams;
+  readonly route: string;
+}
+
+// Avoiding an injection attack: path parameters may only include
+// the characters .-_~ a-z A-Z 0-9
+const paramRegex = /^[.\-_~a-zA-Z0-9]+$/;
+
+const actions = new Map<string, DeepLinkActionDefinition<DeepLinkParams>>();
+
+function segments(path: string): string[] {
+  return path.split('/').filter((segment) => segment);
+}
+
+/**
+ * Add a deep-link action
+ * @param definition the action. A prior action with the same
+ *                   name is replaced.
+ */
+export function registerDeepLinkAction<P extends DeepLinkParams>(
+  definition: DeepLinkActionDefinition<P>
+) {
+  actions.set(
+    definition.name,
+    (definition as unknown) as DeepLinkActionDefinition<DeepLinkParams>
+  );
+}
+
+/**
+ * Match a path against an action's path pattern
+ * @returns the path's parameters or null if the path does not match
+ */
+function matchPath(pattern: string, path: string): DeepLinkParams | null {
+  const patternSegments = segments(pattern);
+  const pathSegments = segments(path);
+  if (patternSegments.length !== pathSegments.length) {
+    return null; // EARLY RETURN
+  }
+  const params: DeepLinkParams = {};
+  for (let i = 0; i < patternSegments.length; i += 1) {
+    const patternSegment = patternSegments[i];
+    const pathSegment = pathSegments[i];
+    if (patternSegment.startsWith(':')) {
+      if (!paramRegex.test(pathSegment)) {
+        log.error(`Potential XSS attack via deep-link path: ${path}`);
+        return null; // EARLY RETURN
+      }
+      params[patternSegment.substring(1)] = pathSegment;
+    } else if (patternSegment.toLowerCase() !== pathSegment.toLowerCase()) {
+      return null; // EARLY RETURN
+    }
+  }
+  return params;
+}
+
+/**
+ * Find the deep-link action for a url
+ * @param path the url's path, without the scheme
+ * @param query the url's query parameters
+ * @returns the action or null if no action matches
+ */
+export function matchDeepLinkAction(
+  path: string,
+  query: URLSearchParams
+): IDeepLinkAction | null {
+  const definitions = Array.from(actions.values());
+  for (let i = 0; i < definitions.length; i += 1) {
+    const definition = definitions[i];
+    const pathParams = matchPath(definition.path, path);
+    if (pathParams) {
+      const params = definition.parseParams
+        ? definition.parseParams(pathParams, query)
+        : pathParams;
+      if (!params) {
+        log.warn(`Rejected the parameters of deep-link ${definition.name}`);
+        return null; // EARLY RETURN
+      }
+      return {
+        name: 'deep-link',
+        action: definition.name,
+        params,
+        route: definition.route(params),
+      };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,215 @@
+/**
+ * OpenID Connect id_token validation.
+ * See https://openid.net/specs/openid-connect-core-1_0.html#IDTokenValidation
+ *
+ * Renderer functions. The token's signature is verified with
+ * the IdP's JSON Web Key Set (JWKS) using WebCrypto.
+ * RS256 and ES256 signatures are supported.
+ */
+import { log } from './app-api';
+
+const clockSkew = 60; // seconds of allowed clock difference
+
+type JWK = JsonWebKey & { kid?: string };
+
+type JWTHeader = {
+  alg: string;
+  kid?: string;
+};
+
+export type IdTokenClaims = {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat?: number;
+  nonce?: string;
+  at_hash?: string;
+  [claim: string]: unknown;
+};
+
+export type IdTokenExpected = {
+  issuer: string;
+  clientId: string;
+  // The login request's nonce. A token is rejected without one.
+  nonce: string | null;
+  jwksUri: string | null;
+  // The access token of the same response. Required for the
+  // Implicit grant's "id_token token" response: its at_hash
+  // claim is checked. See OIDC Core sec 3.2.2.9
+  accessToken: string | null;
+};
+
+/**
+ * The id_token failed validation
+ */
+export class IdTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IdTokenError';
+  }
+}
+
+const jwksCache = new Map<string, JWK[]>();
+
+function base64UrlDecode(input: string): Uint8Array {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '==='.slice((base64.length + 3) % 4);
+  return Uint8Array.from(window.atob(padded), (c) => c.charCodeAt(0));
+}
+
+function decodeJSON<T>(input: string): T {
+  return JSON.parse(new TextDecoder().decode(base64UrlDecode(input)));
+}
+
+/**
+ * Fetch the IdP's signing keys
+ * @param jwksUri the IdP's jwks_uri
+ * @param refresh ignore the cached keys
+ */
+async function fetchKeys(jwksUri: string, refresh: boolean): Promise<JWK[]> {
+  const cached = jwksCache.get(jwksUri);
+  if (cached && !refresh) {
+    return cached; // EARLY RETURN
+  }
+  const response = await fetch(jwksUri, {
+    headers: new Headers({ Accept: `application/json` }),
+  });
+  if (!response.ok) {
+    throw new IdTokenError(`Problem fetching the JWKS: ${response.statusText}`);
+  }
+  const { keys }: { keys: JWK[] } = await response.json();
+  jwksCache.set(jwksUri, keys || []);
+  return keys || [];
+}
+
+/**
+ * Find the key that signed the token. The keys are fetched
+ * again if the key is not found since the IdP may have
+ * rotated its keys.
+ */
+async function findKey(jwksUri: string, header: JWTHeader): Promise<JWK> {
+  const matches = (key: JWK) =>
+    (!header.kid || key.kid === header.kid) &&
+    (header.alg === 'RS256' ? key.kty === 'RSA' : key.kty === 'EC');
+  let key = (await fetchKeys(jwksUri, false)).find(matches);
+  if (!key) {
+    key = (await fetchKeys(jwksUri, true)).find(matches);
+  }
+  if (!key) {
+    throw new IdTokenError(`No signing key found for kid ${header.kid}`);
+  }
+  return key;
+}
+
+/**
+ * The at_hash value for an access token: the base64url encoding
+ * of the left half of the token's SHA-256 hash. (RS256 and ES256
+ * both use SHA-256.)
+ */
+export async function accessTokenHash(accessToken: string): Promise<string> {
+  const digest = new Uint8Array(
+    await window.crypto.subtle.digest(
+      'SHA-256',
+      new TextEncoder().encode(accessToken)
+    )
+  );
+  const half = String.fromCharCode(...Array.from(digest.slice(0, 16)));
+  return window
+    .btoa(half)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+async function verifySignature(
+  header: JWTHeader,
+  key: JWK,
+  signedData: string,
+  signature: string
+): Promise<boolean> {
+  const algorithm =
+    header.alg === 'RS256'
+      ? { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }
+      : { name: 'ECDSA', namedCurve: 'P-256', hash: 'SHA-256' };
+  const cryptoKey = await window.crypto.subtle.importKey(
+    'jwk',
+    key,
+    algorithm,
+    false,
+    ['verify']
+  );
+  return window.crypto.subtle.verify(
+    algorithm,
+    cryptoKey,
+    base64UrlDecode(signature),
+    new TextEncoder().encode(signedData)
+  );
+}
+
+/**
+ * Validate an id_token
+ * @param idToken the id_token from the IdP
+ * @param expected the expected issuer, audience and nonce
+ * @returns the token's claims
+ * @throws IdTokenError if the token is not valid
+ */
+export async function validateIdToken(
+  idToken: string,
+  expected: IdTokenExpected
+): Promise<IdTokenClaims> {
+  const parts = idToken.split('.');
+  if (parts.length !== 3) {
+    throw new IdTokenError('The id_token is malformed');
+  }
+  let header: JWTHeader;
+  let claims: IdTokenClaims;
+  try {
+    header = decodeJSON(parts[0]);
+    claims = decodeJSON(parts[1]);
+  } catch (e) {
+    throw new IdTokenError('The id_token is malformed');
+  }
+
+  if (header.alg !== 'RS256' && header.alg !== 'ES256') {
+    throw new IdTokenError(`Unsupported id_token algorithm ${header.alg}`);
+  }
+  if (!expected.jwksUri) {
+    throw new IdTokenError('The IdP has no jwks_uri');
+  }
+  const key = await findKey(expected.jwksUri, header);
+  const verified = await verifySignature(
+    header,
+    key,
+    `${parts[0]}.${parts[1]}`,
+    parts[2]
+  );
+  if (!verified) {
+    throw new IdTokenError('The id_token signature is not valid');
+  }
+
+  if (claims.iss !== expected.issuer) {
+    throw new IdTokenError(`Unexpected id_token issuer ${claims.iss}`);
+  }
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(expected.clientId)) {
+    throw new IdTokenError('The id_token audience does not match');
+  }
+  if (!claims.exp || claims.exp + clockSkew < Date.now() / 1000) {
+    throw new IdTokenError('The id_token has expired');
+  }
+  // A replayed response has no pending login request, so no nonce
+  if (!expected.nonce || claims.nonce !== expected.nonce) {
+    throw new IdTokenError('The id_token nonce does not match');
+  }
+  if (expected.accessToken !== null) {
+    if (!claims.at_hash) {
+      throw new IdTokenError('The id_token has no at_hash claim');
+    }
+    if (claims.at_hash !== (await accessTokenHash(expected.accessToken))) {
+      throw new IdTokenError('The id_token at_hash does not match');
+    }
+  }
+  log.info(`Validated the id_token for ${claims.sub}`);
+  return claims;
+}
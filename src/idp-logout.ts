@@ -0,0 +1,72 @@
+/**
+ * Logout with the IdP.
+ *
+ * Renderer functions. A token is revoked at the IdP's revocation
+ * endpoint (RFC 7009), so it can't be used after the logout.
+ * See https://tools.ietf.org/html/rfc7009
+ * The IdP's login session is ended by opening its end_session
+ * endpoint in the user's browser (OIDC RP-Initiated Logout).
+ * See https://openid.net/specs/openid-connect-rpinitiated-1_0.html
+ */
+import { log } from './app-api';
+
+export type TokenTypeHint = 'access_token' | 'refresh_token';
+
+/**
+ * Revoke a token at the IdP's revocation endpoint
+ * @param endpoint the revocation endpoint
+ * @param token the token to be revoked
+ * @param tokenTypeHint the type of the token
+ * @param clientId the app's client id
+ * @returns true if the IdP accepted the revocation
+ */
+export async function revokeToken(
+  endpoint: string,
+  token: string,
+  tokenTypeHint: TokenTypeHint,
+  clientId: string
+): Promise<boolean> {
+  try {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: new Headers({
+        'Content-Type': 'application/x-www-form-urlencoded',
+      }),
+      body: new URLSearchParams({
+        token,
+        token_type_hint: tokenTypeHint,
+        client_id: clientId,
+      }),
+    });
+    // RFC 7009 sec 2.2: an invalid or expired token is also a 200
+    if (!response.ok) {
+      log.warn(
+        `The IdP did not revoke the ${tokenTypeHint}: ${response.statusText}`
+      );
+      return false;
+    }
+    return true;
+  } catch (e) {
+    log.warn(`Problem revoking the ${tokenTypeHint}: ${e}`);
+    return false;
+  }
+}
+
+/**
+ * The url that ends the user's login session with the IdP
+ * @param endpoint the end_session endpoint
+ * @param clientId the app's client id
+ * @param idTokenHint the id_token from the login (OIDC mode)
+ */
+export function endSessionUrl(
+  endpoint: string,
+  clientId: string,
+  idTokenHint: string | null
+): string {
+  const url = new URL(endpoint);
+  url.searchParams.set('client_id', clientId);
+  if (idTokenHint) {
+    url.searchParams.set('id_token_hint', idTokenHint);
+  }
+  return url.toString();
+}
@@ -0,0 +1,157 @@
+/**
+ * Private URL scheme registration for Linux.
+ *
+ * Main process functions. On Linux, a scheme is handled by the
+ * application whose .desktop file lists the scheme's
+ * x-scheme-handler MIME type. This module writes the app's desktop
+ * entry in ~/.local/share/applications, updates it when the
+ * schemes or the app's location change, and makes it the default
+ * handler with xdg-mime.
+ *
+ * Development: the entry runs electron with main.dev.ts
+ * Packaged: the entry runs the AppImage or the installed executable
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { app } from 'electron';
+import log from 'electron-log'; // https://www.npmjs.com/package/electron-log
+
+const execFileAsync = promisify(execFile);
+
+export interface ProtocolStatus {
+  readonly scheme: string;
+  readonly bound: boolean;
+  // The desktop entry (Linux) or the app that handles the scheme
+  readonly handler: string | null;
+}
+
+function applicationsDir(): string {
+  const dataHome =
+    process.env.XDG_DATA_HOME || path.join(os.homedir(), '.local', 'share');
+  return path.join(dataHome, 'applications');
+}
+
+/**
+ * The name of the app's desktop entry file
+ */
+export function desktopFileName(): string {
+  const name = app
+    .getName()
+    .toLowerCase()
+    .replace(/[^a-z0-9.-]+/g, '-');
+  return `${name}-url-handler.desktop`;
+}
+
+/**
+ * Quote an argument of the desktop entry's Exec key
+ * See https://specifications.freedesktop.org/desktop-entry-spec/latest/ar01s07.html
+ */
+function quoteExecArg(arg: string): string {
+  if (!/[\s"'\\`$<>|&;*?#()]/.test(arg)) {
+    return arg; // EARLY RETURN
+  }
+  return `"${arg.replace(/(["`$\\])/g, '\\$1')}"`;
+}
+
+/**
+ * The command line that starts this app
+ */
+function execCommand(): string {
+  let args: string[];
+  if (app.isPackaged) {
+    // An AppImage is mounted at a new path for each run
+    args = [process.env.APPIMAGE || process.execPath];
+  } else {
+    // Development: electron -r ./.erb/scripts/BabelRegister ./src/main.dev.ts
+    args = [
+      'env',
+      'NODE_ENV=development',
+      process.execPath,
+      process.argv[1], // -r
+      path.resolve(process.argv[2]), // ./.erb/scripts/BabelRegister
+      path.resolve(process.argv[3]), // ./src/main.dev.ts
+    ];
+  }
+  return `${args.map(quoteExecArg).join(' ')} %u`;
+}
+
+function desktopEntry(schemes: string[]): string {
+  const mimeTypes = schemes.map((s) => `x-scheme-handler/${s};`).join('');
+  return [
+    '[Desktop Entry]',
+    'Type=Application',
+    `Name=${app.getName()}`,
+    `Exec=${execCommand()}`,
+    'Terminal=false',
+    'NoDisplay=true',
+    `MimeType=${mimeTypes}`,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Write or update the desktop entry and make it the default
+ * handler for the schemes
+ * @param schemes the url schemes of the IdP profiles
+ */
+export async function registerLinuxProtocols(schemes: string[]) {
+  if (schemes.length === 0) {
+    return; // EARLY RETURN
+  }
+  const dir = applicationsDir();
+  const filePath = path.join(dir, desktopFileName());
+  const entry = desktopEntry(schemes);
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    const current = fs.existsSync(filePath)
+      ? fs.readFileSync(filePath, 'utf8')
+      : null;
+    if (current !== entry) {
+      fs.writeFileSync(filePath, entry);
+      log.info(`Wrote the desktop entry ${filePath}`);
+      // Optional: refresh the MIME cache of the desktop entries
+      await execFileAsync('update-desktop-database', [dir]).catch((e) =>
+        log.warn(`update-desktop-database: ${e.message}`)
+      );
+    }
+  } catch (e) {
+    log.error(`Problem writing the desktop entry ${filePath}: ${e}`);
+    return;
+  }
+  await Promise.all(
+    schemes.map((scheme) =>
+      execFileAsync('xdg-mime', [
+        'default',
+        desktopFileName(),
+        `x-scheme-handler/${scheme}`,
+      ]).catch((e) =>
+        log.error(`xdg-mime could not register ${scheme}: ${e.message}`)
+      )
+    )
+  );
+}
+
+/**
+ * Is the scheme bound to this app's desktop entry?
+ * @param scheme a url scheme
+ */
+export async function linuxProtocolStatus(
+  scheme: string
+): Promise<ProtocolStatus> {
+  try {
+    const { stdout } = await execFileAsync('xdg-mime', [
+      'query',
+      'default',
+      `x-scheme-handler/${scheme}`,
+    ]);
+    const handler = stdout.trim() || null;
+    return { scheme, bound: handler === desktopFileName(), handler };
+  } catch (e) {
+    log.warn(`xdg-mime could not query ${scheme}: ${e.message}`);
+    return { scheme, bound: false, handler: null };
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * setTimeout for long delays.
+ *
+ * setTimeout fires at once when its delay is over 2^31-1 ms
+ * (about 24.8 days), eg for a session that lasts a month. The
+ * delay is split: the timer is re-armed until the time has come.
+ * Used by the renderer and the main process.
+ */
+
+const maxDelay = 2 ** 31 - 1; // ms
+
+/**
+ * Call the callback after the delay
+ * @param delay ms. May be longer than 2^31-1 ms
+ * @returns a function that cancels the timeout
+ */
+export default function setLongTimeout(
+  callback: () => void,
+  delay: number
+): () => void {
+  let timer: ReturnType<typeof setTimeout>;
+  function arm(remaining: number) {
+    const part = Math.min(remaining, maxDelay);
+    timer = setTimeout(() => {
+      if (remaining > part) {
+        arm(remaining - part);
+      } else {
+        callback();
+      }
+    }, part);
+  }
+  arm(delay);
+  return () => clearTimeout(timer);
+}
@@ -0,0 +1,187 @@
+/**
+ * A temporary loopback http listener for the OAuth redirect.
+ * An alternative to the private URI scheme redirect.
+ * See RFC 8252 sec 7.3 https://tools.ietf.org/html/rfc8252#section-7.3
+ *
+ * Each login has its own listener, so several logins can be pending.
+ * A listener accepts exactly one OAuth callback, the one with the
+ * state value of its login request, then closes. Other requests
+ * don't close it. After a timeout it closes and the login fails.
+ *
+ * The callback request is turned into the app's private scheme url
+ * so it is handled the same way as a url from the operating system.
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import URL from 'url';
+import log from 'electron-log'; // https://www.npmjs.com/package/electron-log
+import { appConfig } from './app-config';
+import { activeProfile } from './profile-store';
+import { pendingAuthorizationFor } from './pending-authorizations';
+
+const loopbackHost = '127.0.0.1';
+// The Implicit grant response is in the fragment (#), which the
+// browser does not send to the server. The close page uses
+// this path to send the fragment to the listener as a query.
+const fragmentPath = 'fragment';
+// The OAuth error sent to the app when the listener timed out
+const timeoutError = 'login_timeout';
+
+type Listener = {
+  readonly server: http.Server;
+  timer: NodeJS.Timeout | null;
+  // Set once the listener is listening
+  redirectUrl: string | null;
+};
+
+const listeners = new Set<Listener>();
+
+/**
+ * The page shown to the user in the browser tab
+ * @param fragmentUrl if set, the page first sends the
+ *                    url's fragment to this url
+ */
+function closeTabPage(fragmentUrl: string | null): string {
+  const script = fragmentUrl
+    ? `<script>
+      if (window.location.hash.length > 1) {
+        window.location.replace('${fragmentUrl}?' + window.location.hash.substring(1));
+      }
+    </script>`
+    : '';
+  return `<!DOCTYPE html>
+<html lang="en-US">
+  <head>
+    <meta charset="utf-8" />
+    <title>Please close this tab</title>
+    <style>
+      body {
+        color: darkblue;
+        background: lightsteelblue;
+        font-family: sans-serif;
+        display: flex;
+        justify-content: center;
+        align-items: center;
+        height: 100vh;
+      }
+    </style>
+  </head>
+  <body>
+    <h1>Thank you for logging in. You can close this tab.</h1>
+    ${script}
+  </body>
+</html>`;
+}
+
+function closeListener(listener: Listener) {
+  if (listener.timer) {
+    clearTimeout(listener.timer);
+    listener.timer = null;
+  }
+  if (listeners.delete(listener)) {
+    listener.server.close();
+  }
+}
+
+/**
+ * Close all of the listeners, eg the login was cancelled
+ */
+export function closeLoopbackListeners() {
+  listeners.forEach(closeListener);
+}
+
+/**
+ * Start a temporary listener on a random loopback port.
+ * The listeners of other pending logins keep running.
+ * @param returnPath the path the IdP will redirect to
+ * @param onURL called with the app url computed from the callback
+ * @returns the redirect url for the IdP
+ */
+export function startLoopbackListener(
+  returnPath: string,
+  onURL: (url: string) => void
+): Promise<string> {
+  const { schemeName, schemeSlashCount, implicitReturnPath } = activeProfile();
+  const slashes = schemeSlashCount === 1 ? '/' : '//';
+  const appUrl = `${schemeName}:${slashes}${returnPath}`;
+
+  const server = http.createServer();
+  const listener: Listener = { server, timer: null, redirectUrl: null };
+  listeners.add(listener);
+
+  server.on('request', (req, res) => {
+    const { pathname, query } = URL.parse(req.url || '');
+    if (
+      pathname !== `/${returnPath}` &&
+      pathname !== `/${returnPath}/${fragmentPath}`
+    ) {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+    if (pathname === `/${returnPath}` && !query) {
+      // Implicit grant: the response is in the fragment
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(closeTabPage(`/${returnPath}/${fragmentPath}`));
+      return;
+    }
+    // Only the response to this listener's login request closes it
+    const authorization =
+      listener.redirectUrl && pendingAuthorizationFor(listener.redirectUrl);
+    const state = new URLSearchParams(query || '').get('state');
+    if (!authorization || state !== authorization.state) {
+      log.warn('Loopback listener: the response is not for its login request');
+      res.writeHead(400);
+      res.end();
+      return;
+    }
+    // The browser's connection must not outlive the listener
+    res.writeHead(200, {
+      'Content-Type': 'text/html; charset=utf-8',
+      Connection: 'close',
+    });
+    res.end(closeTabPage(null));
+    closeListener(listener);
+    const url =
+      pathname === `/${returnPath}`
+        ? `${appUrl}?${query}`
+        : `${appUrl}#${query}`;
+    onURL(url);
+  });
+
+  return new Promise((resolve, reject) => {
+    server.on('error', (error) => {
+      log.error(`Loopback listener error: ${error}`);
+      closeListener(listener);
+      reject(error);
+    });
+    server.listen(0, loopbackHost, () => {
+      const { port } = server.address() as AddressInfo;
+      const timeout = appConfig().loopbackTimeout;
+      const redirectUrl = `http://${loopbackHost}:${port}/${returnPath}`;
+      listener.redirectUrl = redirectUrl;
+      listener.timer = setTimeout(() => {
+        log.info('Loopback listener timed out');
+        closeListener(listener);
+        const authorization = pendingAuthorizationFor(redirectUrl);
+        if (!authorization) {
+          return; // EARLY RETURN
+        }
+        // The app shows the login's failure, like an IdP error.
+        // The Implicit grant's responses are in the fragment
+        const params = new URLSearchParams({
+          error: timeoutError,
+          error_description: `The login was not completed within ${timeout} seconds`,
+          state: authorization.state,
+        });
+        onURL(
+          `${appUrl}${
+            returnPath === implicitReturnPath ? '#' : '?'
+          }${params.toString()}`
+        );
+      }, timeout * 1000);
+      resolve(redirectUrl);
+    });
+  });
+}
@@ -12,20 +12,85 @@
 import 'core-js/stable';
 import 'regenerator-runtime/runtime';
 import path from 'path';
-import { app, BrowserWindow, shell } from 'electron';
+import { app, BrowserWindow, dialog, ipcMain, Session, shell } from 'electron';
 import { autoUpdater } from 'electron-updater';
 import log from 'electron-log';
 import MenuBuilder from './menu';
+import { appConfig, appConfigErrors } from './app-config';
 import { parseAppURL } from './parse-app-url';
-import config from './config';
+import {
+  registerDeepLinkAction,
+  matchDeepLinkAction,
+} from './deep-link-actions';
+import {
+  sendUrlAction,
+  urlActionsReady,
+  urlActionsNotReady,
+} from './url-action-queue';
+import {
+  startLoopbackListener,
+  closeLoopbackListeners,
+} from './loopback-redirect';
+import {
+  ISession,
+  loadSession,
+  saveSession,
+  clearSession,
+} from './session-store';
+import {
+  NewAuthorization,
+  addAuthorization,
+  consumeAuthorization,
+  clearAuthorizations,
+} from './pending-authorizations';
+import {
+  AuthEventType,
+  authEvents,
+  recordAuthEvent,
+  clearAuthEvents,
+  exportAuthEvents,
+} from './auth-journal';
+import {
+  AuthState,
+  loggedOutState,
+  setAuthState,
+  onAuthStateChange,
+} from './auth-state';
+import {
+  sendAuthCommand,
+  authCommandsReady,
+  authCommandsNotReady,
+} from './auth-command-queue';
+import { createTray, hasTray } from './tray';
+import { startNotifications, notifyDeepLink } from './notifications';
+import { loadPreferences, savePreferences } from './preferences';
+import {
+  ProtocolStatus,
+  registerLinuxProtocols,
+  linuxProtocolStatus,
+} from './linux-protocol';
+import {
+  IdPProfile,
+  loadProfiles,
+  activeProfile,
+  saveProfile,
+  deleteProfile,
+  selectProfile,
+} from './profile-store';
 
-const { schemeName } = config;
 const DARWIN = process.platform === 'darwin';
 const WIN32 = process.platform === 'win32';
-// const LINUX  = process.platform === 'linux';
+const LINUX = process.platform === 'linux';
 /** Extra argument for the protocol launcher on Windows */
 const protocolLauncherArg = '--protocol-launcher';
-const possibleProtocols = [schemeName];
+
+/**
+ * The url schemes of all of the IdP profiles
+ */
+function possibleProtocols(): string[] {
+  const schemes = loadProfiles().profiles.map((p) => p.schemeName);
+  return schemes.filter((scheme, i) => scheme && schemes.indexOf(scheme) === i);
+}
 
 export default class AppUpdater {
   constructor() {
@@ -37,6 +102,18 @@ export default class AppUpdater {
 
 let mainWindow: BrowserWindow | null = null;
 
+// Set when the app is quitting, so the window is closed rather than
+// hidden in the tray. See the closeToTray setting
+let quitting = false;
+
+const RESOURCES_PATH = app.isPackaged
+  ? path.join(process.resourcesPath, 'assets')
+  : path.join(__dirname, '../assets');
+
+const getAssetPath = (...paths: string[]): string => {
+  return path.join(RESOURCES_PATH, ...paths);
+};
+
 /**
  * Handle the url sent to this application
  * @param url the incoming url argument
@@ -44,16 +121,41 @@ let mainWindow: BrowserWindow | null = null;
 function handleAppURL(url: string) {
   // log.info('Processing protocol url');
   const action = parseAppURL(url);
+  const hidden =
+    !mainWindow || !mainWindow.isVisible() || mainWindow.isMinimized();
   // This manual focus call _shouldn't_ be necessary, but is for Chrome on
   // macOS. See https://github.com/desktop/desktop/issues/973.
   // log.info(`Sending action!\n${JSON.stringify(action, null, 4)}`);
   if (mainWindow) {
     mainWindow.focus();
     mainWindow.show();
-    mainWindow.webContents.send('url-action', action);
+  }
+  // The action is queued until the renderer is listening
+  sendUrlAction(action);
+  // The window manager may have ignored the focus call
+  if (hidden && 'route' in action) {
+    notifyDeepLink(action.route);
   }
 }
 
+/**
+ * Find the argument that is a url for one of our protocols
+ * @param args the command line arguments
+ */
+function findProtocolUrl(args: ReadonlyArray<string>): string | undefined {
+  const protocols = possibleProtocols();
+  return args.find((arg) => {
+    // eslint-disable-next-line no-plusplus
+    for (let index = 0; index < protocols.length; index++) {
+      const protocol = protocols[index];
+      if (protocol && arg.indexOf(`${protocol}:`) === 0) {
+        return true;
+      }
+    }
+    return false;
+  });
+}
+
 /**
  * Attempt to detect and handle any protocol handler arguments passed
  * either via the command line directly to the current process or through
@@ -88,16 +190,7 @@ function handlePossibleProtocolLauncherArgs(args: ReadonlyArray<string>) {
       return;
     }
     // find the arg that starts with one of our desired protocols
-    const url: string | undefined = args.find((arg) => {
-      // eslint-disable-next-line no-plusplus
-      for (let index = 0; index < possibleProtocols.length; index++) {
-        const protocol = possibleProtocols[index];
-        if (protocol && arg.indexOf(protocol) === 0) {
-          return true;
-        }
-      }
-      return false;
-    });
+    const url = findProtocolUrl(args);
     if (url === undefined) {
       log.error(
         `No url in args even though flag was present! ${args.join('; ')}`
@@ -106,9 +199,14 @@ function handlePossibleProtocolLauncherArgs(args: ReadonlyArray<string>) {
     }
     handleAppURL(url);
     // End of WIN32 case
-  } else if (args.length > 1) {
+  } else {
     // Mac or linux case
-    handleAppURL(args[1]);
+    // The dev launcher and Chromium may add arguments, so the
+    // url is not always args[1]. Look for it the same way.
+    const url = findProtocolUrl(args);
+    if (url !== undefined) {
+      handleAppURL(url);
+    }
   }
 }
 
@@ -144,12 +242,81 @@ function setAsDefaultProtocolClient(protocol: string | undefined) {
     app.setAsDefaultProtocolClient(protocol, process.execPath, [
       protocolLauncherArg,
     ]);
+  } else if (LINUX) {
+    // The desktop entry lists all of the schemes
+    registerLinuxProtocols(possibleProtocols());
   } else {
     app.removeAsDefaultProtocolClient(protocol);
     app.setAsDefaultProtocolClient(protocol);
   }
 }
 
+/**
+ * Open a url from the renderer in the user's browser.
+ * Only web urls are opened.
+ * @param url the url
+ */
+function openWebUrl(url: string) {
+  if (!/^https?:\/\//i.test(url)) {
+    log.error(`Not opening the url: ${url}`);
+    return;
+  }
+  shell.openExternal(url);
+}
+
+/**
+ * Clear the renderer's Electron session storage at logout
+ * @param ses the renderer's session
+ * @param everywhere also clear localStorage (the remembered accounts)
+ */
+async function clearStorage(ses: Session, everywhere: boolean) {
+  const storages = [
+    'appcache',
+    'cookies',
+    'filesystem',
+    'indexdb',
+    'shadercache',
+    'websql',
+    'serviceworkers',
+    'cachestorage',
+  ];
+  try {
+    await ses.clearStorageData({
+      storages: everywhere ? [...storages, 'localstorage'] : storages,
+    });
+    await ses.clearCache();
+    await ses.clearAuthCache();
+  } catch (e) {
+    log.error(`Problem clearing the session storage: ${e}`);
+  }
+}
+
+/**
+ * Diagnostic: which of the profiles' schemes are bound to this app?
+ */
+async function protocolStatus(): Promise<ProtocolStatus[]> {
+  return Promise.all(
+    possibleProtocols().map((scheme) =>
+      LINUX
+        ? linuxProtocolStatus(scheme)
+        : { scheme, bound: app.isDefaultProtocolClient(scheme), handler: null }
+    )
+  );
+}
+
+/**
+ * Show the renderer's Session details page
+ */
+function showSessionDetails() {
+  const action = matchDeepLinkAction('session', new URLSearchParams());
+  if (!mainWindow || !action) {
+    return;
+  }
+  mainWindow.show();
+  mainWindow.focus();
+  sendUrlAction(action);
+}
+
 const installExtensions = async () => {
   // eslint-disable-next-line global-require
   const installer = require('electron-devtools-installer');
@@ -175,23 +342,16 @@ const createWindow = async () => {
     await installExtensions();
   }
 
-  const RESOURCES_PATH = app.isPackaged
-    ? path.join(process.resourcesPath, 'assets')
-    : path.join(__dirname, '../assets');
-
-  const getAssetPath = (...paths: string[]): string => {
-    return path.join(RESOURCES_PATH, ...paths);
-  };
-
   mainWindow = new BrowserWindow({
     show: false,
     width: 1024,
     height: 728,
     icon: getAssetPath('icon.png'),
     webPreferences: {
-      nodeIntegration: true,
-      contextIsolation: false,
-      enableRemoteModule: true,
+      // The renderer only has the preload script's window.appApi
+      preload: path.join(__dirname, 'preload.js'),
+      nodeIntegration: false,
+      contextIsolation: true,
     },
   });
 
@@ -211,12 +371,42 @@ const createWindow = async () => {
     }
   });
 
+  // The renderer's url action and auth command listeners are
+  // gone until it reports that it is ready again
+  mainWindow.webContents.on('did-start-loading', () => {
+    urlActionsNotReady();
+    authCommandsNotReady();
+  });
+
+  // Optionally, closing the window hides it in the tray
+  mainWindow.on('close', (event) => {
+    if (
+      mainWindow &&
+      appConfig().closeToTray === 'on' &&
+      hasTray() &&
+      !quitting
+    ) {
+      event.preventDefault();
+      mainWindow.hide();
+    }
+  });
+
   mainWindow.on('closed', () => {
+    urlActionsNotReady();
+    authCommandsNotReady();
     mainWindow = null;
+    // There is no renderer to report its auth state (macOS)
+    setAuthState(loggedOutState);
   });
 
-  const menuBuilder = new MenuBuilder(mainWindow);
+  const menuBuilder = new MenuBuilder(mainWindow, {
+    sendCommand: sendAuthCommand,
+    showSessionDetails,
+  });
   menuBuilder.buildMenu();
+  // The Account menu's items depend on the auth state
+  const unsubscribeMenu = onAuthStateChange(() => menuBuilder.updateMenu());
+  mainWindow.on('closed', unsubscribeMenu);
 
   // Open urls in the user's browser
   mainWindow.webContents.on('new-window', (event, url) => {
@@ -229,6 +419,33 @@ const createWindow = async () => {
   new AppUpdater();
 };
 
+/**
+ * Show the window, eg from the tray icon. The window is
+ * created if it was closed (macOS).
+ */
+function showWindow() {
+  if (!mainWindow) {
+    createWindow().catch((error) => {
+      log.error(`error creating window: ${error}`);
+    });
+    return;
+  }
+  if (mainWindow.isMinimized()) {
+    mainWindow.restore();
+  }
+  mainWindow.show();
+  mainWindow.focus();
+}
+
+/**
+ * Show the window with a route, eg when a notification is clicked
+ * @param route a react-router route of the renderer
+ */
+function showRoute(route: string) {
+  showWindow();
+  sendUrlAction({ name: 'deep-link', action: 'show-route', params: {}, route });
+}
+
 //
 // MAIN LINE
 //
@@ -242,6 +459,17 @@ if (isDuplicateInstance) {
   app.quit();
 }
 
+// Check the settings before they are used. See app-config.ts
+const configErrors = isDuplicateInstance ? [] : appConfigErrors();
+if (configErrors.length > 0) {
+  log.error(`Configuration problems:\n${configErrors.join('\n')}`);
+  dialog.showErrorBox(
+    'The app is not configured correctly',
+    `${configErrors.join('\n')}\n\nSee README_OAuth.md`
+  );
+  app.exit(1);
+}
+
 app.on('second-instance', (_event, args) => {
   // Someone tried to run a second instance, we should focus our window.
   if (mainWindow) {
@@ -277,6 +505,10 @@ if (
  * Add event listeners...
  */
 
+app.on('before-quit', () => {
+  quitting = true;
+});
+
 app.on('window-all-closed', () => {
   // Respect the OSX convention of having the application in memory even
   // after all windows have been closed
@@ -285,10 +517,115 @@ app.on('window-all-closed', () => {
   }
 });
 
+// The renderer asks for a loopback redirect listener when
+// config.redirectMode is 'loopback'
+ipcMain.handle('start-loopback', (_event, returnPath: string) =>
+  startLoopbackListener(returnPath, handleAppURL)
+);
+
+// The renderer asks for the IdP's authorization url to be opened
+// in the user's browser
+ipcMain.on('login-start', (_event, url: string) => openWebUrl(url));
+
+// Logout: the IdP's end_session url ends the browser's login session
+ipcMain.on('logout-end-session', (_event, url: string) => openWebUrl(url));
+ipcMain.handle('storage-clear', (event, everywhere: boolean) =>
+  clearStorage(event.sender.session, everywhere)
+);
+
+// The renderer is listening for url actions
+ipcMain.on('url-actions-ready', (event) => urlActionsReady(event.sender));
+
+// The renderer is listening for auth commands
+ipcMain.on('auth-commands-ready', (event) => authCommandsReady(event.sender));
+
+ipcMain.on('login-cancel', () => {
+  closeLoopbackListeners();
+  clearAuthorizations();
+});
+
+// The pending login requests
+ipcMain.handle('authorization-add', (_event, authorization: NewAuthorization) =>
+  addAuthorization(authorization)
+);
+ipcMain.handle('authorization-consume', (_event, state: string) =>
+  consumeAuthorization(state)
+);
+
+// Log messages from the renderer
+ipcMain.on('log', (_event, level: string, message: string) => {
+  if (level === 'error') {
+    log.error(message);
+  } else if (level === 'warn') {
+    log.warn(message);
+  } else {
+    log.info(message);
+  }
+});
+
+// The session is stored encrypted by the main process
+ipcMain.handle('session-load', () => loadSession());
+ipcMain.on('session-save', (_event, session: ISession) => saveSession(session));
+ipcMain.on('session-clear', () => clearSession());
+
+// IdP profiles
+ipcMain.handle('profile-active', () => activeProfile());
+ipcMain.handle('profiles-get', () => loadProfiles());
+ipcMain.handle('profiles-save', (_event, profile: IdPProfile) => {
+  const result = saveProfile(profile);
+  if (result.profile) {
+    // the profile's scheme may be new
+    setAsDefaultProtocolClient(result.profile.schemeName);
+  }
+  return result;
+});
+ipcMain.handle('protocol-status', () => protocolStatus());
+ipcMain.handle('profiles-delete', (_event, id: string) => deleteProfile(id));
+ipcMain.handle('profiles-select', (_event, id: string) => selectProfile(id));
+
+// The authentication event journal. See auth-journal.ts
+ipcMain.on('auth-event-record', (_event, type: AuthEventType, reason: string) =>
+  recordAuthEvent(type, reason)
+);
+ipcMain.handle('auth-events-get', () => authEvents());
+ipcMain.handle('auth-events-clear', () => clearAuthEvents());
+ipcMain.handle('auth-events-export', (event) =>
+  exportAuthEvents(BrowserWindow.fromWebContents(event.sender))
+);
+
+// The user's preferences. See preferences.ts
+ipcMain.handle('preferences-get', () => loadPreferences());
+ipcMain.handle('preferences-save', (_event, preferences: unknown) =>
+  savePreferences(preferences)
+);
+
+// The renderer's auth state, for the tray icon, the Account menu
+// and the notifications. See auth-state.ts
+ipcMain.on('auth-state', (_event, state: AuthState) => setAuthState(state));
+
+// Deep-link actions. Eg com.example.electron1:/settings
+// See deep-link-actions.ts
+registerDeepLinkAction({
+  name: 'settings',
+  path: 'settings',
+  route: () => '/settings',
+});
+registerDeepLinkAction({
+  name: 'auth-events',
+  path: 'auth-events',
+  route: () => '/auth-events',
+});
+registerDeepLinkAction({
+  name: 'session',
+  path: 'session',
+  route: () => '/session',
+});
+
 app.on('activate', () => {
   // On macOS it's common to re-create a window in the app when the
   // dock icon is clicked and there are no other windows open.
-  if (mainWindow === null) createWindow();
+  // With closeToTray, the window may be hidden.
+  showWindow();
 });
 
 if (DARWIN) {
@@ -296,17 +633,49 @@ if (DARWIN) {
     event.preventDefault();
     handleAppURL(url);
   });
-} else if (WIN32 && process.argv.length > 1) {
+} else if (
+  // A duplicate's args are handled by the first instance's
+  // second-instance event
+  !isDuplicateInstance &&
+  (WIN32 || LINUX) &&
+  process.argv.length > 1
+) {
   handlePossibleProtocolLauncherArgs(process.argv);
 }
 
-app.on('ready', () => {
-  possibleProtocols.forEach((protocol) => setAsDefaultProtocolClient(protocol));
+app.on('ready', async () => {
+  if (LINUX) {
+    await registerLinuxProtocols(possibleProtocols());
+  } else {
+    possibleProtocols().forEach((protocol) =>
+      setAsDefaultProtocolClient(protocol)
+    );
+  }
+  (await protocolStatus()).forEach(({ scheme, bound, handler }) => {
+    if (!bound) {
+      log.warn(
+        `The ${scheme} scheme is not bound to this app. Handler: ${handler}`
+      );
+    }
+  });
 });
 
 app
   .whenReady()
   .then(createWindow)
+  .then(() =>
+    createTray(getAssetPath('icons', '16x16.png'), {
+      showWindow,
+      sendCommand: sendAuthCommand,
+      quit: () => app.quit(),
+    })
+  )
+  .then(() =>
+    startNotifications({
+      windowFocused: () => !!mainWindow && mainWindow.isFocused(),
+      showRoute,
+    })
+  )
   .catch((error) => {
     log.error(`error creating window: ${error}`);
   });
@@ -5,17 +5,28 @@ import {
   BrowserWindow,
   MenuItemConstructorOptions,
 } from 'electron';
+import { AuthCommand, authState } from './auth-state';
 
 interface DarwinMenuItemConstructorOptions extends MenuItemConstructorOptions {
   selector?: string;
   submenu?: DarwinMenuItemConstructorOptions[] | Menu;
 }
 
+// The Account menu's actions. See main.dev.ts
+export interface AccountMenuActions {
+  // Send an auth command to the renderer
+  sendCommand(command: AuthCommand): void;
+  showSessionDetails(): void;
+}
+
 export default class MenuBuilder {
   mainWindow: BrowserWindow;
 
-  constructor(mainWindow: BrowserWindow) {
+  accountActions: AccountMenuActions;
+
+  constructor(mainWindow: BrowserWindow, accountActions: AccountMenuActions) {
     this.mainWindow = mainWindow;
+    this.accountActions = accountActions;
   }
 
   buildMenu(): Menu {
@@ -25,7 +36,15 @@ export default class MenuBuilder {
     ) {
       this.setupDevelopmentEnvironment();
     }
+    return this.updateMenu();
+  }
 
+  /**
+   * Build and set the application menu. Also called when the
+   * renderer's auth state changes, to enable and disable the
+   * Account menu's items. See auth-state.ts
+   */
+  updateMenu(): Menu {
     const template =
       process.platform === 'darwin'
         ? this.buildDarwinTemplate()
@@ -52,6 +71,78 @@ export default class MenuBuilder {
     });
   }
 
+  /**
+   * The Account menu's items
+   * @param modifier the accelerators' modifier key
+   */
+  buildAccountSubmenu(
+    modifier: 'Command' | 'Ctrl'
+  ): MenuItemConstructorOptions[] {
+    const state = authState();
+    const loggedIn = state.status === 'logged-in';
+    const switchable = loggedIn && state.accounts.length > 1;
+    const items: MenuItemConstructorOptions[] = [
+      {
+        label: 'Log in',
+        accelerator: `${modifier}+Shift+L`,
+        enabled: state.status === 'logged-out',
+        click: () => {
+          this.accountActions.sendCommand({ name: 'login' });
+        },
+      },
+      {
+        label: 'Log out',
+        accelerator: `${modifier}+Shift+O`,
+        enabled: loggedIn,
+        click: () => {
+          this.accountActions.sendCommand({ name: 'logout' });
+        },
+      },
+      {
+        label: 'Switch account',
+        enabled: switchable,
+        submenu: switchable
+          ? state.accounts.map((account) => ({
+              label: `${account.accountName} (${account.externalAccountId})`,
+              type: 'radio',
+              checked: account.accountId === state.accountId,
+              click: () => {
+                this.accountActions.sendCommand({
+                  name: 'switch-account',
+                  accountId: account.accountId,
+                });
+              },
+            }))
+          : undefined,
+      },
+      { type: 'separator' },
+      {
+        label: 'Show session details',
+        accelerator: `${modifier}+Shift+D`,
+        enabled: loggedIn,
+        click: () => {
+          this.accountActions.showSessionDetails();
+        },
+      },
+    ];
+    if (
+      process.env.NODE_ENV === 'development' ||
+      process.env.DEBUG_PROD === 'true'
+    ) {
+      // The renderer has the current session's token.
+      // Not Shift+C, it's the DevTools' inspect element
+      items.push({
+        label: 'Copy access token',
+        accelerator: `${modifier}+Shift+T`,
+        enabled: loggedIn,
+        click: () => {
+          this.accountActions.sendCommand({ name: 'copy-access-token' });
+        },
+      });
+    }
+    return items;
+  }
+
   buildDarwinTemplate(): MenuItemConstructorOptions[] {
     const subMenuAbout: DarwinMenuItemConstructorOptions = {
       label: 'Electron',
@@ -138,6 +229,10 @@ export default class MenuBuilder {
         },
       ],
     };
+    const subMenuAccount: MenuItemConstructorOptions = {
+      label: 'Account',
+      submenu: this.buildAccountSubmenu('Command'),
+    };
     const subMenuWindow: DarwinMenuItemConstructorOptions = {
       label: 'Window',
       submenu: [
@@ -189,7 +284,14 @@ export default class MenuBuilder {
         ? subMenuViewDev
         : subMenuViewProd;
 
-    return [subMenuAbout, subMenuEdit, subMenuView, subMenuWindow, subMenuHelp];
+    return [
+      subMenuAbout,
+      subMenuEdit,
+      subMenuView,
+      subMenuAccount,
+      subMenuWindow,
+      subMenuHelp,
+    ];
   }
 
   buildDefaultTemplate() {
@@ -252,6 +354,10 @@ export default class MenuBuilder {
                 },
               ],
       },
+      {
+        label: '&Account',
+        submenu: this.buildAccountSubmenu('Ctrl'),
+      },
       {
         label: 'Help',
         submenu: [
@@ -0,0 +1,176 @@
+/**
+ * A local stand-in for the IdP, for tests.
+ *
+ * A Node http server on the loopback interface. It needs no network
+ * access, so tests that use it can run offline, eg in CI.
+ * It uses the DocuSign endpoint paths:
+ *
+ *   /oauth/auth      Implicit grant. Redirects to the request's
+ *                    redirect_uri with the tokens in the fragment,
+ *                    or with an OAuth error. Optionally after a delay.
+ *   /oauth/userinfo  The DocuSign userinfo response with the
+ *                    configured user and accounts. Requires the
+ *                    access token.
+ *
+ * The IdP has no OIDC discovery document, so the app uses the
+ * DocuSign endpoint paths. See oidc-discovery.ts
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+
+const mockIdPHost = '127.0.0.1';
+
+// A DocuSign userinfo account
+export interface MockAccount {
+  readonly account_id: string;
+  readonly account_name: string;
+  readonly base_uri: string;
+  readonly is_default: boolean;
+}
+
+export interface MockIdPOptions {
+  readonly user: { readonly name: string; readonly email: string };
+  readonly accounts: MockAccount[];
+  readonly accessToken: string;
+  readonly expiresIn: number; // seconds
+  // Changes to the fragment's parameters. A null value removes
+  // the parameter. Eg { token_type: 'mac' } or { state: null }
+  readonly fragment: { [param: string]: string | null };
+  // If set, /oauth/auth redirects with this OAuth error
+  readonly error: {
+    readonly error: string;
+    readonly description?: string;
+  } | null;
+  readonly delay: number; // ms before /oauth/auth redirects
+}
+
+export interface MockIdP {
+  // The IdP's url, for the profile's idpUrl setting
+  readonly url: string;
+  // The paths of the requests that the IdP received, in order
+  readonly requests: string[];
+  configure(options: Partial<MockIdPOptions>): void;
+  close(): Promise<void>;
+}
+
+export const defaultMockIdPOptions: MockIdPOptions = {
+  user: { name: 'Pat Example', email: 'pat@example.com' },
+  accounts: [
+    {
+      account_id: '7b3a1f62-0000-4c5e-9d41-a1b2c3d4e5f6',
+      account_name: 'Example Account',
+      base_uri: 'https://demo.docusign.net',
+      is_default: true,
+    },
+  ],
+  accessToken:
+    'eyJ0eXAiOiJNVCIsImFsZyI6IlJTMjU2In0.eyJtb2NrIjoidHJ1ZSJ9.bW9jaw',
+  expiresIn: 28800,
+  fragment: {},
+  error: null,
+  delay: 0,
+};
+
+/**
+ * The redirect from /oauth/auth
+ * @param query the authorization request's query
+ */
+function authRedirect(query: URLSearchParams, options: MockIdPOptions): string {
+  const response = new URLSearchParams();
+  if (options.error) {
+    response.set('error', options.error.error);
+    if (options.error.description) {
+      response.set('error_description', options.error.description);
+    }
+  } else {
+    response.set('access_token', options.accessToken);
+    response.set('expires_in', String(options.expiresIn));
+    response.set('token_type', 'bearer');
+  }
+  response.set('state', query.get('state') || '');
+  Object.keys(options.fragment).forEach((param) => {
+    const value = options.fragment[param];
+    if (value === null) {
+      response.delete(param);
+    } else {
+      response.set(param, value);
+    }
+  });
+  return `${query.get('redirect_uri')}#${response.toString()}`;
+}
+
+function closeServer(server: http.Server): Promise<void> {
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+/**
+ * Start a mock IdP on a free port
+ * @param options changes to the default options
+ */
+export function startMockIdP(
+  options: Partial<MockIdPOptions> = {}
+): Promise<MockIdP> {
+  let current: MockIdPOptions = { ...defaultMockIdPOptions, ...options };
+  const requests: string[] = [];
+
+  const server = http.createServer((req, res) => {
+    const requestUrl = new URL(req.url || '/', `http://${mockIdPHost}`);
+    requests.push(requestUrl.pathname);
+    // The renderer calls the IdP from the app's origin
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', '*');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+    } else if (requestUrl.pathname === '/oauth/auth') {
+      const { searchParams } = requestUrl;
+      if (!searchParams.get('redirect_uri') || !searchParams.get('state')) {
+        res.writeHead(400, { 'Content-Type': 'text/plain' });
+        res.end('redirect_uri and state are required');
+        return;
+      }
+      setTimeout(() => {
+        res.writeHead(302, { Location: authRedirect(searchParams, current) });
+        res.end();
+      }, current.delay);
+    } else if (requestUrl.pathname === '/oauth/userinfo') {
+      if (req.headers.authorization !== `Bearer ${current.accessToken}`) {
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'invalid_token' }));
+        return;
+      }
+      const [givenName, ...familyName] = current.user.name.split(' ');
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          sub: '2a6b0e1c-0000-4b7d-8e3f-f6e5d4c3b2a1',
+          name: current.user.name,
+          given_name: givenName,
+          family_name: familyName.join(' '),
+          email: current.user.email,
+          accounts: current.accounts,
+        })
+      );
+    } else {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not found');
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.on('error', reject);
+    server.listen(0, mockIdPHost, () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://${mockIdPHost}:${port}`,
+        requests,
+        configure(changes) {
+          current = { ...current, ...changes };
+        },
+        close: () => closeServer(server),
+      });
+    });
+  });
+}
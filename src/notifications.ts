@@ -0,0 +1,109 @@
+/**
+ * Native desktop notifications.
+ *
+ * Main process functions. The login finishes in the user's browser,
+ * and some window managers ignore the app's request for the focus,
+ * so the user may not see the renderer's toasts. The notifications
+ * are shown when the window does not have the focus:
+ *   - the login completed or failed
+ *   - the session will expire soon
+ *   - a deep link was received while the window was hidden
+ * Clicking a notification shows the relevant route. The user can
+ * turn the notifications off on the Settings page. See preferences.ts
+ */
+
+import { Notification } from 'electron';
+import log from 'electron-log'; // https://www.npmjs.com/package/electron-log
+import { AuthEvent, onAuthEvent } from './auth-journal';
+import { AuthState, authState, onAuthStateChange } from './auth-state';
+import { loadPreferences } from './preferences';
+import setLongTimeout from './long-timeout';
+
+// The same lead as the renderer's SessionTimer warning
+const expiryWarningLead = 5 * 60 * 1000;
+
+export interface NotificationTarget {
+  windowFocused(): boolean;
+  // Show the window with the route
+  showRoute(route: string): void;
+}
+
+let target: NotificationTarget | null = null;
+// Cancels the pending expiry warning. See long-timeout.ts
+let cancelExpiryWarning: (() => void) | null = null;
+
+/**
+ * Show a notification, unless they are turned off or the
+ * window has the focus
+ * @param route the route to show when the notification is clicked
+ */
+function notify(title: string, body: string, route: string) {
+  if (
+    !target ||
+    target.windowFocused() ||
+    loadPreferences().notifications !== 'on' ||
+    !Notification.isSupported()
+  ) {
+    return; // EARLY RETURN
+  }
+  const notificationTarget = target;
+  const notification = new Notification({ title, body });
+  notification.on('click', () => notificationTarget.showRoute(route));
+  notification.show();
+}
+
+function authEventListener(event: AuthEvent) {
+  if (event.type === 'completed') {
+    notify('You are logged in', event.reason, '/');
+  } else if (event.type === 'rejected' && authState().status === 'logging-in') {
+    notify('The login was not successful', event.reason, '/');
+  }
+}
+
+/**
+ * Schedule the expiry warning for the session
+ */
+function authStateListener(state: AuthState) {
+  if (cancelExpiryWarning) {
+    cancelExpiryWarning();
+    cancelExpiryWarning = null;
+  }
+  if (state.status !== 'logged-in' || !state.expires) {
+    return; // EARLY RETURN
+  }
+  const delay =
+    new Date(state.expires).getTime() - expiryWarningLead - Date.now();
+  if (delay < 0) {
+    return; // EARLY RETURN
+  }
+  cancelExpiryWarning = setLongTimeout(() => {
+    cancelExpiryWarning = null;
+    notify(
+      'Your session will expire soon',
+      `Your session will expire in ${expiryWarningLead / (60 * 1000)} minutes.`,
+      '/'
+    );
+  }, delay);
+}
+
+/**
+ * Start showing the notifications
+ */
+export function startNotifications(notificationTarget: NotificationTarget) {
+  if (target) {
+    return; // EARLY RETURN
+  }
+  target = notificationTarget;
+  onAuthEvent(authEventListener);
+  onAuthStateChange(authStateListener);
+  authStateListener(authState());
+  log.info(`Notifications are ${loadPreferences().notifications}`);
+}
+
+/**
+ * A deep link was received while the window was hidden
+ * @param route the deep link's route
+ */
+export function notifyDeepLink(route: string) {
+  notify('Link received', `Click to open ${route} in the app.`, route);
+}
@@ -0,0 +1,137 @@
+/**
+ * OpenID Connect discovery of the IdP's endpoints.
+ * See https://openid.net/specs/openid-connect-discovery-1_0.html
+ *
+ * Renderer functions. The discovery document is fetched from
+ * the profile's idpUrl (the issuer) and cached.
+ * An endpoint set in the profile overrides the discovered endpoint.
+ * If the IdP has no discovery document, the DocuSign
+ * endpoint paths are used. A document whose issuer does not
+ * match the profile's idpUrl is not used. A trailing slash of
+ * the idpUrl is ignored.
+ */
+import { log } from './app-api';
+import { IdPProfile } from './profile-store';
+
+const discoveryPath = '/.well-known/openid-configuration';
+const cacheLifetime = 24 * 60 * 60; // 1 day
+// When the document could not be fetched or was rejected,
+// it is fetched again after this time
+const failureCacheLifetime = 5 * 60; // 5 minutes
+
+export interface IdPEndpoints {
+  readonly issuer: string;
+  readonly authorization: string;
+  readonly token: string;
+  readonly userinfo: string;
+  readonly revocation: string | null;
+  readonly endSession: string | null;
+  readonly jwksUri: string | null;
+}
+
+// The discovery document attributes that are used
+type DiscoveryDocument = {
+  issuer?: string;
+  authorization_endpoint?: string;
+  token_endpoint?: string;
+  userinfo_endpoint?: string;
+  revocation_endpoint?: string;
+  end_session_endpoint?: string;
+  jwks_uri?: string;
+};
+
+type CacheEntry = {
+  fetched: number;
+  document: DiscoveryDocument | null;
+};
+
+const cache = new Map<string, CacheEntry>();
+
+/**
+ * The url without its trailing slashes, eg https://account-d.docusign.com/
+ */
+function withoutTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Fetch the IdP's discovery document
+ * @param issuer the IdP's url, without a trailing slash
+ * @returns the document or null if the IdP doesn't have one
+ */
+async function fetchDiscoveryDocument(
+  issuer: string
+): Promise<DiscoveryDocument | null> {
+  try {
+    const response = await fetch(`${issuer}${discoveryPath}`, {
+      headers: new Headers({ Accept: `application/json` }),
+    });
+    if (!response.ok) {
+      log.warn(
+        `No OIDC discovery document for ${issuer}: ${response.statusText}`
+      );
+      return null;
+    }
+    const document: DiscoveryDocument = await response.json();
+    // OIDC Discovery 4.3: the issuer must be the url that was used
+    if (document.issuer && withoutTrailingSlash(document.issuer) !== issuer) {
+      log.error(
+        `OIDC discovery issuer ${document.issuer} does not match ${issuer}. The document was not used`
+      );
+      return null;
+    }
+    return document;
+  } catch (e) {
+    log.warn(`Problem fetching the OIDC discovery document: ${e}`);
+    return null;
+  }
+}
+
+/**
+ * Forget the cached discovery documents
+ */
+export function clearDiscoveryCache() {
+  cache.clear();
+}
+
+/**
+ * Determine the IdP's endpoints for a profile
+ * @param profile the IdP profile
+ */
+export async function idpEndpoints(profile: IdPProfile): Promise<IdPEndpoints> {
+  const issuer = withoutTrailingSlash(profile.idpUrl);
+  let entry = cache.get(issuer);
+  const lifetime =
+    entry && entry.document ? cacheLifetime : failureCacheLifetime;
+  if (!entry || Date.now() - entry.fetched > lifetime * 1000) {
+    entry = {
+      fetched: Date.now(),
+      document: await fetchDiscoveryDocument(issuer),
+    };
+    cache.set(issuer, entry);
+  }
+  const discovered: DiscoveryDocument = entry.document || {};
+
+  // Manual overrides, then the discovered endpoints,
+  // then the DocuSign layout
+  return {
+    issuer: discovered.issuer || issuer,
+    authorization:
+      profile.authorizationEndpoint ||
+      discovered.authorization_endpoint ||
+      `${issuer}/oauth/auth`,
+    token:
+      profile.tokenEndpoint ||
+      discovered.token_endpoint ||
+      `${issuer}/oauth/token`,
+    userinfo:
+      profile.userinfoEndpoint ||
+      discovered.userinfo_endpoint ||
+      `${issuer}/oauth/userinfo`,
+    revocation:
+      profile.revocationEndpoint || discovered.revocation_endpoint || null,
+    endSession:
+      profile.endSessionEndpoint || discovered.end_session_endpoint || null,
+    jwksUri: discovered.jwks_uri || null,
+  };
+}
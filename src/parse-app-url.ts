@@ -7,14 +7,33 @@
  */
 
 import log from 'electron-log'; // https://www.npmjs.com/package/electron-log
-import URL from 'url';
-import config from './config';
+import { activeProfile, loadProfiles } from './profile-store';
+import { IDeepLinkAction, matchDeepLinkAction } from './deep-link-actions';
+import { recordAuthEvent } from './auth-journal';
 
 export interface IOAuthAction {
   readonly name: string;
   readonly accessToken: string;
   readonly state: string;
   readonly expiresIn: number;
+  readonly scope: string | null; // the granted scopes, if sent by the IdP
+  readonly idToken?: string; // OIDC mode
+}
+
+export interface IOAuthCodeAction {
+  readonly name: string;
+  readonly code: string;
+  readonly state: string;
+}
+
+// An error response from the IdP, eg the user did not grant consent
+// See https://tools.ietf.org/html/rfc6749#section-4.2.2.1
+export interface IOAuthErrorAction {
+  readonly name: 'oauth-error';
+  readonly returnPath: string; // the implicit or the pkce return path
+  readonly error: string;
+  readonly errorDescription: string | null;
+  readonly state: string;
 }
 
 export interface IUnknownAction {
@@ -22,87 +41,241 @@ export interface IUnknownAction {
   readonly url: string;
 }
 
-export type URLActionType = IOAuthAction | IUnknownAction;
+export type URLActionType =
+  | IOAuthAction
+  | IOAuthCodeAction
+  | IOAuthErrorAction
+  | IDeepLinkAction
+  | IUnknownAction;
 
-export function parseAppURL(url: string): URLActionType {
-  const parsedURL = URL.parse(url);
-  let actionName: string | null = null;
-
-  // For future versions of Node, the WHATG version of URL is
-  // recommended. But it's not ready for v12.20. Sigh.
-  //
-  // We also have the issue that a single slash should be used
-  // for the URL (as recommended by RFC 8252 sec 7.1)
-  // See https://tools.ietf.org/html/rfc8252#section-7.1)
-  //
-  // But a parsed single slash URL does not use the hostname, only the pathname,
-  // whereas a parsed double slash uses the hostname attribute.
-  const { pathname, hostname } = parsedURL;
-  const unknown: IUnknownAction = { name: 'unknown', url };
-  if (!pathname && !hostname) {
-    return unknown; // EARLY RETURN
+// Avoiding an injection attack: each parameter's value
+// may only include the expected characters
+// access_token and code: RFC 6750 b64token
+const tokenRegex = /^[-._~+/a-zA-Z0-9]+=*$/;
+// id_token: a JWT
+const jwtRegex = /^[-_a-zA-Z0-9]+\.[-_a-zA-Z0-9]+\.[-_a-zA-Z0-9]*$/;
+const stateRegex = /^[-._~a-zA-Z0-9]+$/;
+const expiresInRegex = /^[0-9]+$/;
+// RFC 6749 sec 3.3: space separated scope tokens
+const scopeRegex = /^[\x21\x23-\x5B\x5D-\x7E]+( [\x21\x23-\x5B\x5D-\x7E]+)*$/;
+const errorRegex = /^[_a-zA-Z]+$/;
+// RFC 6749 sec 4.1.2.1
+const errorDescriptionRegex = /^[\x20-\x21\x23-\x5B\x5D-\x7E]+$/;
+
+type ResponseParams = Map<string, string>;
+
+/**
+ * Log and journal the reason that an OAuth response was rejected
+ * @param reason the reason. Secrets are redacted by the journal.
+ */
+function rejected(reason: string) {
+  log.error(reason);
+  recordAuthEvent('rejected', reason);
+}
+
+/**
+ * Read the parameters of an IdP response.
+ * @param searchParams the url's query or fragment parameters
+ * @returns the parameters, or null if a parameter was
+ *          included more than once
+ */
+function readParams(searchParams: URLSearchParams): ResponseParams | null {
+  const params: ResponseParams = new Map();
+  let repeated: string | null = null;
+  searchParams.forEach((value, key) => {
+    if (params.has(key)) {
+      repeated = key;
+    }
+    params.set(key, value);
+  });
+  if (repeated) {
+    rejected(`Repeated parameter ${repeated} in the OAuth response`);
+    return null; // EARLY RETURN
   }
+  return params;
+}
 
-  // determine actionName
-  // This version: only expecting the implicitReturnPath action.
-  // Need to check the hostname and pathname due to single/double
-  // slash issues.
-  // N.B. Once we start using WHATG URL, only need to check the pathname
-  //
-  // InfoSec: these checks are not so secure since additional strings
-  // could be added before or after the target string.
-  // But checking the state value (done by the listener) provides the
-  // necessary security against CSRF and other attacks
+/**
+ * Check that an optional parameter is absent or matches its regex
+ */
+function validParam(params: ResponseParams, key: string, regex: RegExp) {
+  const value = params.get(key);
+  if (value === undefined || regex.test(value)) {
+    return true; // EARLY RETURN
+  }
+  log.error(`Potential XSS attack via the ${key} value: ${value}`);
+  recordAuthEvent('rejected', `Potential XSS attack via the ${key} value`);
+  return false;
+}
+
+/**
+ * Parse an error response from the IdP
+ * An example: #error=access_denied&error_description=The+user+denied+consent&state=e3f287fbe932b904a660282242bfc58bd6a67fe2
+ * @param returnPath the response's return path
+ * @returns the action, or null if the response is not an error response
+ */
+function parseErrorResponse(
+  returnPath: string,
+  params: ResponseParams,
+  unknown: IUnknownAction
+): IOAuthErrorAction | IUnknownAction | null {
+  const error = params.get('error');
+  if (error === undefined) {
+    return null; // EARLY RETURN
+  }
+  const state = params.get('state');
+  if (!state) {
+    rejected('The OAuth error response has no state parameter');
+    return unknown; // EARLY RETURN
+  }
   if (
-    pathname &&
-    config.implicitReturnPath &&
-    pathname.toLowerCase().includes(config.implicitReturnPath)
+    !validParam(params, 'error', errorRegex) ||
+    !validParam(params, 'state', stateRegex)
   ) {
-    actionName = config.implicitReturnPath;
-  } else if (
-    hostname &&
-    config.implicitReturnPath &&
-    hostname.toLowerCase().includes(config.implicitReturnPath)
-  ) {
-    actionName = config.implicitReturnPath;
+    return unknown; // EARLY RETURN
   }
+  // An unexpected description is not shown to the user
+  const errorDescription = validParam(
+    params,
+    'error_description',
+    errorDescriptionRegex
+  )
+    ? params.get('error_description') || null
+    : null;
+  return { name: 'oauth-error', returnPath, error, errorDescription, state };
+}
 
-  if (!actionName) {
+/**
+ * Parse the query of an Authorization Code grant response
+ * An example: ?code=eyJ0eXAiOiJNVCIsIxxxxxxxxxxx...LqF6A&state=e3f287fbe932b904a660282242bfc58bd6a67fe2
+ */
+function parseCodeResponse(
+  actionName: string,
+  params: ResponseParams,
+  unknown: IUnknownAction
+): IOAuthCodeAction | IUnknownAction {
+  const code = params.get('code');
+  const state = params.get('state');
+  if (!code || !state) {
+    rejected('The OAuth response is missing the code or state parameter');
     return unknown; // EARLY RETURN
   }
+  if (
+    !validParam(params, 'code', tokenRegex) ||
+    !validParam(params, 'state', stateRegex)
+  ) {
+    return unknown; // EARLY RETURN
+  }
+  return { name: actionName, code, state };
+}
 
-  // Looking good. Compute the remaining IOAuthAction attributes
-  let accessToken: string;
-  let expiresIn: number;
-  let state: string;
-
-  // Start of actionName === config.implicitReturnPath section
-  const { hash } = parsedURL;
-  const accessTokenFound = hash && hash.substring(0, 14) === '#access_token=';
-  if (!accessTokenFound) {
+/**
+ * Parse the fragment of an Implicit grant response.
+ * The parameters may be in any order.
+ * An example: #access_token=eyJ0eXAiOiJNVCIsIxxxxxxxxxxx...LqF6A&expires_in=28800&token_type=bearer&state=e3f287fbe932b904a660282242bfc58bd6a67fe2
+ * In OIDC mode, the fragment also includes the id_token.
+ */
+function parseTokenResponse(
+  actionName: string,
+  params: ResponseParams,
+  unknown: IUnknownAction
+): IOAuthAction | IUnknownAction {
+  const accessToken = params.get('access_token');
+  const expiresIn = params.get('expires_in');
+  const tokenType = params.get('token_type');
+  const state = params.get('state');
+  const scope = params.get('scope');
+  const idToken = params.get('id_token');
+  if (!accessToken || !expiresIn || !tokenType || !state) {
+    rejected('The OAuth response is missing a required parameter');
     return unknown; // EARLY RETURN
   }
-  // Avoiding an injection attack: check that the hash only includes expected characters
-  // An example: #access_token=eyJ0eXAiOiJNVCIsIxxxxxxxxxxx...LqF6A&expires_in=28800&token_type=bearer&state=e3f287fbe932b904a660282242bfc58bd6a67fe2
-  // No characters other than #.-&=_ a-z A-Z 0-9 (no spaces)
-  const hashRegex = /[^#.\-&=_a-zA-Z0-9]/;
-  if (hash && hash.search(hashRegex) !== -1) {
-    log.error(`Potential XSS attack via fragment (#) value: ${hash}`);
-    return unknown;
+  if (
+    !validParam(params, 'access_token', tokenRegex) ||
+    !validParam(params, 'expires_in', expiresInRegex) ||
+    !validParam(params, 'state', stateRegex) ||
+    !validParam(params, 'scope', scopeRegex) ||
+    !validParam(params, 'id_token', jwtRegex)
+  ) {
+    return unknown; // EARLY RETURN
+  }
+  // See RFC 6749 sec 7.1. The token type is case insensitive
+  if (tokenType.toLowerCase() !== 'bearer') {
+    rejected(`Unsupported OAuth token_type: ${tokenType}`);
+    return unknown; // EARLY RETURN
   }
+  const action: IOAuthAction = {
+    name: actionName,
+    accessToken,
+    state,
+    expiresIn: parseInt(expiresIn, 10),
+    scope: scope || null,
+  };
+  return idToken ? { ...action, idToken } : action;
+}
+
+/**
+ * The url's path, without the leading slashes.
+ * With one slash (recommended by RFC 8252 sec 7.1, see
+ * https://tools.ietf.org/html/rfc8252#section-7.1) the path is
+ * the url's pathname. With two slashes, the path is the url's host
+ * plus the pathname.
+ * A trailing slash is removed since some browsers add it.
+ */
+function urlPath(parsedURL: URL): string {
+  return `${parsedURL.host}${parsedURL.pathname}`
+    .replace(/^\/+/, '')
+    .replace(/\/$/, '');
+}
 
-  const regex = /(#access_token=)(.*)(&expires_in=)(.*)(&token_type=)(.*)(&state=)(.*)/;
-  const results = hash && regex.exec(hash);
-  if (results === null) {
+export function parseAppURL(url: string): URLActionType {
+  const unknown: IUnknownAction = { name: 'unknown', url };
+  let parsedURL: URL;
+  try {
+    parsedURL = new URL(url);
+  } catch (e) {
+    log.error(`Malformed app url: ${url}`);
     return unknown; // EARLY RETURN
   }
+  // The scheme includes a trailing :
+  const scheme = parsedURL.protocol.slice(0, -1);
+  const path = urlPath(parsedURL);
+  const profile = activeProfile();
 
-  /* eslint-disable prefer-destructuring, prefer-const */
-  accessToken = results[2];
-  state = results[8];
-  expiresIn = parseInt(results[4], 10);
-  /* eslint-enable prefer-destructuring, prefer-const */
-  // End of actionName === config.implicitReturnPath section
+  // OAuth responses must use the active profile's scheme
+  // and exactly match one of its return paths.
+  // Checking the state value (done by the listener) provides the
+  // necessary security against CSRF and other attacks
+  if (scheme === profile.schemeName.toLowerCase()) {
+    const isImplicit = !!path && path === profile.implicitReturnPath;
+    const isPKCE = !!path && path === profile.pkceReturnPath;
+    if (isImplicit || isPKCE) {
+      recordAuthEvent('callback-received', `OAuth response for ${path}`);
+      // Implicit grant: the response is in the fragment (#)
+      // Authorization Code grant: the response is in the query (?)
+      const params = readParams(
+        new URLSearchParams(
+          isImplicit ? parsedURL.hash.substring(1) : parsedURL.search
+        )
+      );
+      if (!params) {
+        return unknown; // EARLY RETURN
+      }
+      const errorAction = parseErrorResponse(path, params, unknown);
+      if (errorAction) {
+        return errorAction; // EARLY RETURN
+      }
+      return isImplicit
+        ? parseTokenResponse(path, params, unknown)
+        : parseCodeResponse(path, params, unknown);
+    }
+  }
 
-  return { name: actionName, accessToken, state, expiresIn };
+  // Not an OAuth response. Is it a registered deep-link action
+  // for one of the profiles' schemes?
+  const { profiles } = loadProfiles();
+  if (!profiles.some((p) => p.schemeName.toLowerCase() === scheme)) {
+    return unknown; // EARLY RETURN
+  }
+  return matchDeepLinkAction(path, parsedURL.searchParams) || unknown;
 }
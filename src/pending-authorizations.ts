@@ -0,0 +1,150 @@
+/**
+ * The pending authorization requests.
+ *
+ * Main process functions. Each login request is stored with its
+ * state value, its secrets (nonce, PKCE code_verifier), its creation
+ * time and the IdP profile that it is for. When the IdP's response
+ * arrives, the request is found by the response's state value and
+ * consumed: each request can only be used once.
+ * Requests expire after authorizationMaxAge seconds. See app-config.ts
+ */
+
+import log from 'electron-log'; // https://www.npmjs.com/package/electron-log
+import { appConfig } from './app-config';
+import { activeProfile } from './profile-store';
+import { recordAuthEvent } from './auth-journal';
+
+// The number of finished states that are remembered to detect reuse
+const finishedLimit = 50;
+
+export interface NewAuthorization {
+  readonly state: string;
+  readonly nonce: string | null;
+  readonly codeVerifier: string | null;
+  readonly redirectUrl: string;
+}
+
+export interface PendingAuthorization extends NewAuthorization {
+  readonly profileId: string;
+  readonly created: number; // ms
+}
+
+type Finished = 'consumed' | 'expired' | 'cancelled';
+
+export type ConsumeResult =
+  | { readonly status: 'ok'; readonly authorization: PendingAuthorization }
+  | { readonly status: 'expired' | 'reused' | 'cancelled' | 'unknown' };
+
+const pending = new Map<string, PendingAuthorization>();
+// The states of the finished requests, oldest first
+const finished = new Map<string, Finished>();
+
+function maxAge(): number {
+  return appConfig().authorizationMaxAge * 1000;
+}
+
+function finish(state: string, how: Finished) {
+  pending.delete(state);
+  finished.set(state, how);
+  if (finished.size > finishedLimit) {
+    finished.delete(finished.keys().next().value);
+  }
+}
+
+/**
+ * Remove the expired requests
+ */
+function removeExpired() {
+  const now = Date.now();
+  pending.forEach((authorization, state) => {
+    if (now - authorization.created > maxAge()) {
+      finish(state, 'expired');
+    }
+  });
+}
+
+/**
+ * Store a new login request for the active profile
+ * @param authorization the request's state and secrets
+ */
+export function addAuthorization(authorization: NewAuthorization) {
+  removeExpired();
+  const profile = activeProfile();
+  pending.set(authorization.state, {
+    ...authorization,
+    profileId: profile.id,
+    created: Date.now(),
+  });
+  recordAuthEvent(
+    'login-started',
+    `Login started with the ${profile.authFlow} flow`
+  );
+}
+
+/**
+ * The pending login request that uses a redirect url, eg the url
+ * of a loopback listener. The request is not consumed.
+ * See loopback-redirect.ts
+ */
+export function pendingAuthorizationFor(
+  redirectUrl: string
+): PendingAuthorization | null {
+  return (
+    Array.from(pending.values()).find(
+      (authorization) => authorization.redirectUrl === redirectUrl
+    ) || null
+  );
+}
+
+/**
+ * Log and journal the reason that a response was rejected
+ */
+function rejected(reason: string, status: ConsumeResult['status']) {
+  if (status === 'reused' || status === 'unknown') {
+    log.error(reason);
+  } else {
+    log.warn(reason);
+  }
+  recordAuthEvent('rejected', reason);
+}
+
+/**
+ * Find and remove the login request for an IdP response
+ * @param state the response's state value
+ */
+export function consumeAuthorization(state: string): ConsumeResult {
+  const authorization = pending.get(state);
+  if (authorization) {
+    const age = Date.now() - authorization.created;
+    if (age <= maxAge()) {
+      finish(state, 'consumed');
+      return { status: 'ok', authorization }; // EARLY RETURN
+    }
+    finish(state, 'expired');
+  }
+  const how = finished.get(state);
+  if (how === 'consumed') {
+    rejected(
+      'OAuth state reused: the login request was already completed',
+      'reused'
+    );
+    return { status: 'reused' }; // EARLY RETURN
+  }
+  if (how === 'expired') {
+    rejected('OAuth state expired: the login request is too old', 'expired');
+    return { status: 'expired' }; // EARLY RETURN
+  }
+  if (how === 'cancelled') {
+    rejected('OAuth state of a cancelled login request', 'cancelled');
+    return { status: 'cancelled' }; // EARLY RETURN
+  }
+  rejected('OAuth state mismatch: no login request has this state', 'unknown');
+  return { status: 'unknown' };
+}
+
+/**
+ * Forget the pending login requests, eg the login was cancelled
+ */
+export function clearAuthorizations() {
+  Array.from(pending.keys()).forEach((state) => finish(state, 'cancelled'));
+}
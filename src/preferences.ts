@@ -0,0 +1,99 @@
+/**
+ * The user's preferences.
+ *
+ * Main process functions. Unlike the IdP profiles, the preferences
+ * are not about the IdP. They are set on the Settings page and
+ * stored in the app's userData directory.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { app } from 'electron';
+import log from 'electron-log'; // https://www.npmjs.com/package/electron-log
+
+const preferencesFileName = 'preferences.json';
+
+export interface Preferences {
+  // Desktop notifications. See notifications.ts
+  readonly notifications: string; // 'off' or 'on'
+}
+
+const defaultPreferences: Preferences = {
+  notifications: 'on',
+};
+
+// The allowed values of each preference
+const allowedValues: { [name in keyof Preferences]: readonly string[] } = {
+  notifications: ['off', 'on'],
+};
+
+let cache: Preferences | null = null;
+
+function preferencesFilePath(): string {
+  return path.join(app.getPath('userData'), preferencesFileName);
+}
+
+/**
+ * Only the known preferences with allowed values are used.
+ * The values are from the renderer or the preferences file.
+ * @param values the preferences to check
+ * @param base the values of the missing or invalid preferences
+ */
+function checkedPreferences(values: unknown, base: Preferences): Preferences {
+  if (!values || typeof values !== 'object') {
+    log.warn('The preferences were not valid. They were ignored.');
+    return base; // EARLY RETURN
+  }
+  const checked: { -readonly [name in keyof Preferences]: string } = {
+    ...base,
+  };
+  const given = values as { [name: string]: unknown };
+  (Object.keys(allowedValues) as (keyof Preferences)[]).forEach((name) => {
+    const value = given[name];
+    if (typeof value === 'string' && allowedValues[name].includes(value)) {
+      checked[name] = value;
+    } else if (value !== undefined) {
+      log.warn(`The ${name} preference ${value} is not valid. It was ignored.`);
+    }
+  });
+  Object.keys(given)
+    .filter((name) => !(name in allowedValues))
+    .forEach((name) => log.warn(`Unknown preference ${name} was ignored.`));
+  return checked;
+}
+
+export function loadPreferences(): Preferences {
+  if (cache) {
+    return cache; // EARLY RETURN
+  }
+  try {
+    cache = checkedPreferences(
+      JSON.parse(fs.readFileSync(preferencesFilePath(), 'utf8')),
+      defaultPreferences
+    );
+  } catch (e) {
+    if (e.code !== 'ENOENT') {
+      log.error(`Problem reading the preferences: ${e}`);
+    }
+    cache = defaultPreferences;
+  }
+  return cache as Preferences;
+}
+
+/**
+ * Store the preferences. Unknown preferences and invalid
+ * values are ignored.
+ * @param preferences from the renderer
+ * @returns the stored preferences
+ */
+export function savePreferences(preferences: unknown): Preferences {
+  cache = checkedPreferences(preferences, loadPreferences());
+  try {
+    fs.writeFileSync(preferencesFilePath(), JSON.stringify(cache, null, 2), {
+      mode: 0o600,
+    });
+  } catch (e) {
+    log.error(`Problem saving the preferences: ${e}`);
+  }
+  return cache;
+}
@@ -0,0 +1,74 @@
+// @ts-check
+/**
+ * The preload script for the renderer window.
+ *
+ * Exposes the narrow window.appApi to the renderer. The renderer
+ * runs with contextIsolation and without Node integration, so this
+ * is the renderer's only access to the main process.
+ * See app-api.ts for the API's types.
+ *
+ * This file is not compiled. It is loaded by the BrowserWindow
+ * from the same directory as the main process file.
+ */
+const { contextBridge, ipcRenderer } = require('electron');
+
+/** @type {import('./app-api').AppApi} */
+const appApi = {
+  onUrlAction(listener) {
+    /** @type {(event: Electron.IpcRendererEvent, action: any) => void} */
+    const ipcListener = (_event, action) => listener(action);
+    ipcRenderer.on('url-action', ipcListener);
+    return () => {
+      ipcRenderer.removeListener('url-action', ipcListener);
+    };
+  },
+  urlActionsReady: () => ipcRenderer.send('url-actions-ready'),
+  startLogin: (authorizationUrl) =>
+    ipcRenderer.send('login-start', authorizationUrl),
+  startLoopback: (returnPath) =>
+    ipcRenderer.invoke('start-loopback', returnPath),
+  cancelLogin: () => ipcRenderer.send('login-cancel'),
+  addAuthorization: (authorization) =>
+    ipcRenderer.invoke('authorization-add', authorization),
+  consumeAuthorization: (state) =>
+    ipcRenderer.invoke('authorization-consume', state),
+  clearStorage: (everywhere) => ipcRenderer.invoke('storage-clear', everywhere),
+  endSession: (endSessionUrl) =>
+    ipcRenderer.send('logout-end-session', endSessionUrl),
+  loadSession: () => ipcRenderer.invoke('session-load'),
+  saveSession: (session) => ipcRenderer.send('session-save', session),
+  clearSession: () => ipcRenderer.send('session-clear'),
+  activeProfile: () => ipcRenderer.invoke('profile-active'),
+  getProfiles: () => ipcRenderer.invoke('profiles-get'),
+  saveProfile: (profile) => ipcRenderer.invoke('profiles-save', profile),
+  deleteProfile: (id) => ipcRenderer.invoke('profiles-delete', id),
+  selectProfile: (id) => ipcRenderer.invoke('profiles-select', id),
+  recordAuthEvent: (type, reason) =>
+    ipcRenderer.send('auth-event-record', type, reason),
+  authEvents: () => ipcRenderer.invoke('auth-events-get'),
+  clearAuthEvents: () => ipcRenderer.invoke('auth-events-clear'),
+  exportAuthEvents: () => ipcRenderer.invoke('auth-events-export'),
+  setAuthState: (state) => ipcRenderer.send('auth-state', state),
+  authCommandsReady: () => ipcRenderer.send('auth-commands-ready'),
+  onAuthCommand(listener) {
+    /** @type {(event: Electron.IpcRendererEvent, command: any) => void} */
+    const ipcListener = (_event, command) => listener(command);
+    ipcRenderer.on('auth-command', ipcListener);
+    return () => {
+      ipcRenderer.removeListener('auth-command', ipcListener);
+    };
+  },
+  getPreferences: () => ipcRenderer.invoke('preferences-get'),
+  savePreferences: (preferences) =>
+    ipcRenderer.invoke('preferences-save', preferences),
+  protocolStatus: () => ipcRenderer.invoke('protocol-status'),
+  log: (level, message) => ipcRenderer.send('log', level, message),
+};
+
+contextBridge.exposeInMainWorld('appApi', appApi);
+
+// index.html chooses the renderer scripts with these values
+contextBridge.exposeInMainWorld('appEnv', {
+  NODE_ENV: process.env.NODE_ENV,
+  PORT: process.env.PORT,
+});
@@ -0,0 +1,259 @@
+/**
+ * Identity provider (IdP) profiles.
+ *
+ * Main process functions. Each profile holds the settings for one
+ * IdP, eg DocuSign demo, DocuSign production, or your own IdP.
+ * The user's profiles are stored in the app's userData directory.
+ * The first profile, Default, is created from the src/config.js
+ * settings (with their preset and overrides) each time the profiles
+ * are loaded. It is not stored, so it follows the config.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { app } from 'electron';
+import log from 'electron-log'; // https://www.npmjs.com/package/electron-log
+import { appConfig, settingsErrors } from './app-config';
+
+const profilesFileName = 'idp-profiles.json';
+const defaultProfileId = 'default';
+
+export interface IdPProfile {
+  readonly id: string;
+  readonly name: string;
+  readonly schemeName: string;
+  readonly schemeSlashCount: number; // 1 or 2
+  readonly idpUrl: string;
+  readonly authFlow: string; // 'implicit' or 'pkce'
+  readonly implicitClientId: string;
+  readonly implicitReturnPath: string;
+  readonly implicitScopes: string;
+  readonly implicitRedirectUrl: string;
+  readonly pkceClientId: string;
+  readonly pkceReturnPath: string;
+  readonly pkceScopes: string;
+  readonly pkceRedirectUrl: string;
+  readonly redirectMode: string; // 'scheme' or 'loopback'
+  readonly oidcMode: string; // 'off' or 'on'
+  readonly userInfoAdapter: string; // see userinfo-adapters.ts
+  // The logout steps that the IdP supports. See idp-logout.ts
+  readonly logoutRevocation: string; // 'off' or 'on'
+  readonly logoutEndSession: string; // 'off' or 'on'
+  // Optional endpoint overrides. Empty: use OIDC discovery
+  readonly authorizationEndpoint: string;
+  readonly tokenEndpoint: string;
+  readonly userinfoEndpoint: string;
+  readonly revocationEndpoint: string;
+  readonly endSessionEndpoint: string;
+}
+
+// The result of saving a profile
+export interface ProfileSaveResult {
+  // null if the profile was not valid
+  readonly profile: IdPProfile | null;
+  readonly errors: string[];
+}
+
+export interface IProfiles {
+  readonly activeId: string;
+  // The Default profile, created from the config settings.
+  // It can't be edited or deleted
+  readonly defaultId: string;
+  readonly profiles: IdPProfile[];
+}
+
+// The contents of the profiles file: the user's profiles
+type StoredProfiles = {
+  readonly activeId: string;
+  readonly profiles: IdPProfile[];
+};
+
+let cache: IProfiles | null = null;
+
+function profilesFilePath(): string {
+  return path.join(app.getPath('userData'), profilesFileName);
+}
+
+/**
+ * The profile created from the src/config.js settings
+ */
+function configProfile(): IdPProfile {
+  const config = appConfig();
+  return {
+    id: defaultProfileId,
+    name: 'Default',
+    schemeName: config.schemeName,
+    schemeSlashCount: config.schemeSlashCount,
+    idpUrl: config.idpUrl,
+    authFlow: config.authFlow,
+    implicitClientId: config.implicitClientId,
+    implicitReturnPath: config.implicitReturnPath,
+    implicitScopes: config.implicitScopes,
+    implicitRedirectUrl: config.implicitRedirectUrl,
+    pkceClientId: config.pkceClientId,
+    pkceReturnPath: config.pkceReturnPath,
+    pkceScopes: config.pkceScopes,
+    pkceRedirectUrl: config.pkceRedirectUrl,
+    redirectMode: config.redirectMode,
+    oidcMode: config.oidcMode,
+    userInfoAdapter: config.userInfoAdapter,
+    logoutRevocation: config.logoutRevocation,
+    logoutEndSession: config.logoutEndSession,
+    authorizationEndpoint: config.authorizationEndpoint,
+    tokenEndpoint: config.tokenEndpoint,
+    userinfoEndpoint: config.userinfoEndpoint,
+    revocationEndpoint: config.revocationEndpoint,
+    endSessionEndpoint: config.endSessionEndpoint,
+  };
+}
+
+/**
+ * The Default profile and the user's profiles.
+ * A stored active profile is checked with the rules of the config
+ * settings, since the file may have been edited or written by an
+ * older version of the app. If it is not valid, Default is used.
+ */
+function withConfigProfile(stored: StoredProfiles): IProfiles {
+  const active = stored.profiles.find((p) => p.id === stored.activeId);
+  const errors = active
+    ? settingsErrors(
+        `the ${active.name} profile`,
+        (active as unknown) as { [key: string]: unknown }
+      )
+    : [];
+  if (active && errors.length > 0) {
+    log.error(
+      `The active IdP profile is not valid, the Default profile is used: ${errors.join(
+        ' '
+      )}`
+    );
+  }
+  return {
+    activeId: active && errors.length === 0 ? active.id : defaultProfileId,
+    defaultId: defaultProfileId,
+    profiles: [configProfile(), ...stored.profiles],
+  };
+}
+
+/**
+ * Store the user's profiles. The Default profile is not stored
+ */
+function writeProfiles(activeId: string, profiles: IdPProfile[]) {
+  const stored: StoredProfiles = {
+    activeId,
+    profiles: profiles.filter((p) => p.id !== defaultProfileId),
+  };
+  cache = withConfigProfile(stored);
+  try {
+    fs.writeFileSync(profilesFilePath(), JSON.stringify(stored, null, 2));
+  } catch (e) {
+    log.error(`Problem saving the IdP profiles: ${e}`);
+  }
+}
+
+/**
+ * Read the profiles. The first one is the Default profile,
+ * created from the src/config.js settings.
+ */
+export function loadProfiles(): IProfiles {
+  if (cache) {
+    return cache; // EARLY RETURN
+  }
+  let stored: StoredProfiles = { activeId: defaultProfileId, profiles: [] };
+  try {
+    const file = JSON.parse(fs.readFileSync(profilesFilePath(), 'utf8'));
+    if (file && Array.isArray(file.profiles)) {
+      // Older versions of the app also stored the Default profile
+      stored = {
+        activeId: String(file.activeId),
+        profiles: file.profiles.filter(
+          (p: IdPProfile) => p && p.id && p.id !== defaultProfileId
+        ),
+      };
+    }
+  } catch (e) {
+    if (e.code !== 'ENOENT') {
+      log.error(`Problem reading the IdP profiles: ${e}`);
+    }
+  }
+  cache = withConfigProfile(stored);
+  return cache;
+}
+
+/**
+ * The profile that is currently used for logins
+ */
+export function activeProfile(): IdPProfile {
+  const { activeId, profiles } = loadProfiles();
+  return profiles.find((p) => p.id === activeId) || profiles[0];
+}
+
+/**
+ * Add a new profile or update an existing one.
+ * The profile is checked with the rules of the config settings,
+ * eg its schemeName must be a valid url scheme. See app-config.ts
+ * The Default profile can't be changed: it is created from the
+ * config settings.
+ * @param profile the profile. If its id is empty, it is a new profile
+ * @returns the saved profile, or the profile's problems
+ */
+export function saveProfile(profile: IdPProfile): ProfileSaveResult {
+  const errors = [
+    ...(profile.id === defaultProfileId
+      ? [
+          'The Default profile is created from the config settings. Create a new profile instead.',
+        ]
+      : []),
+    ...(profile.name ? [] : ['The profile name is required.']),
+    ...settingsErrors(
+      `the ${profile.name} profile`,
+      (profile as unknown) as { [key: string]: unknown }
+    ),
+  ];
+  if (errors.length > 0) {
+    log.warn(`The IdP profile was not saved: ${errors.join(' ')}`);
+    return { profile: null, errors }; // EARLY RETURN
+  }
+  const { activeId, profiles } = loadProfiles();
+  const saved: IdPProfile = profile.id
+    ? profile
+    : { ...profile, id: crypto.randomBytes(8).toString('hex') };
+  const exists = profiles.some((p) => p.id === saved.id);
+  writeProfiles(
+    activeId,
+    exists
+      ? profiles.map((p) => (p.id === saved.id ? saved : p))
+      : [...profiles, saved]
+  );
+  return { profile: saved, errors: [] };
+}
+
+/**
+ * Delete a profile. The Default profile can't be deleted.
+ * @param id the profile's id
+ */
+export function deleteProfile(id: string) {
+  if (id === defaultProfileId) {
+    log.warn('The Default profile can not be deleted');
+    return;
+  }
+  const { activeId, profiles } = loadProfiles();
+  writeProfiles(
+    activeId === id ? defaultProfileId : activeId,
+    profiles.filter((p) => p.id !== id)
+  );
+}
+
+/**
+ * Choose the profile that will be used for logins
+ * @param id the profile's id
+ */
+export function selectProfile(id: string) {
+  const { profiles } = loadProfiles();
+  if (!profiles.some((p) => p.id === id)) {
+    log.error(`Unknown IdP profile: ${id}`);
+    return;
+  }
+  writeProfiles(id, profiles);
+}
@@ -0,0 +1,84 @@
+/**
+ * A queue for the messages that are sent to the renderer.
+ *
+ * Main process class. A message can be sent before the renderer
+ * can receive it, eg on a cold launch from a protocol url. The
+ * messages are kept until the renderer reports that it is
+ * listening, then sent in the order they arrived. Messages that
+ * waited too long are dropped.
+ */
+
+import { WebContents } from 'electron';
+import log from 'electron-log'; // https://www.npmjs.com/package/electron-log
+
+type Queued<T> = {
+  readonly message: T;
+  readonly received: number;
+};
+
+export default class ReadyQueue<T extends { readonly name: string }> {
+  private queue: Queued<T>[] = [];
+
+  private renderer: WebContents | null = null;
+
+  /**
+   * @param channel the ipc channel of the messages
+   * @param kind the messages' kind for the log, eg 'url action'
+   * @param maxAge the number of ms a message may wait
+   */
+  constructor(
+    private readonly channel: string,
+    private readonly kind: string,
+    private readonly maxAge: () => number
+  ) {}
+
+  /**
+   * Send a message to the renderer now or when it is ready
+   * @param message the message
+   */
+  send(message: T) {
+    this.queue.push({ message, received: Date.now() });
+    this.flush();
+  }
+
+  /**
+   * The renderer is listening for the messages
+   * @param webContents the renderer
+   */
+  ready(webContents: WebContents) {
+    this.renderer = webContents;
+    this.flush();
+  }
+
+  /**
+   * The renderer is (re)loading or closed. Keep the messages
+   * until it is ready again.
+   */
+  notReady() {
+    this.renderer = null;
+  }
+
+  /**
+   * Send the queued messages to the renderer, if it is ready
+   */
+  private flush() {
+    const { renderer } = this;
+    if (!renderer || renderer.isDestroyed()) {
+      return; // EARLY RETURN
+    }
+    const now = Date.now();
+    const messages = this.queue;
+    this.queue = [];
+    messages.forEach(({ message, received }) => {
+      if (now - received > this.maxAge()) {
+        log.warn(
+          `Dropped the ${message.name} ${this.kind} after ${Math.round(
+            (now - received) / 1000
+          )} seconds`
+        );
+      } else {
+        renderer.send(this.channel, message);
+      }
+    });
+  }
+}
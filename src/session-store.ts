@@ -0,0 +1,97 @@
+/**
+ * Persist the login session so logins survive app restarts.
+ *
+ * Main process functions. The session is encrypted at rest with
+ * Electron's safeStorage (the OS keychain / DPAPI / libsecret).
+ * If encryption is not available, the session is not stored.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { app, safeStorage } from 'electron';
+import log from 'electron-log'; // https://www.npmjs.com/package/electron-log
+import { UserAccount } from './accounts';
+
+const sessionFileName = 'session.bin';
+
+export interface ISession {
+  readonly accessToken: string;
+  // Not in sessions saved by older versions of the app
+  readonly refreshToken: string | null;
+  readonly idToken: string | null;
+  readonly expires: string; // ISO date
+  readonly name: string | null;
+  readonly email: string | null;
+  readonly accountId: string | null;
+  readonly externalAccountId: string | null;
+  readonly accountName: string | null;
+  readonly baseUri: string | null;
+  readonly accounts: UserAccount[];
+}
+
+function sessionFilePath(): string {
+  return path.join(app.getPath('userData'), sessionFileName);
+}
+
+/**
+ * Delete the stored session, if any
+ */
+export function clearSession() {
+  try {
+    fs.unlinkSync(sessionFilePath());
+  } catch (e) {
+    if (e.code !== 'ENOENT') {
+      log.error(`Problem deleting the saved session: ${e}`);
+    }
+  }
+}
+
+/**
+ * Encrypt and store the session
+ * @param session the session to be stored
+ */
+export function saveSession(session: ISession) {
+  if (!safeStorage.isEncryptionAvailable()) {
+    log.warn('Encryption is not available. The session was not saved.');
+    return;
+  }
+  try {
+    const encrypted = safeStorage.encryptString(JSON.stringify(session));
+    fs.writeFileSync(sessionFilePath(), encrypted, { mode: 0o600 });
+  } catch (e) {
+    log.error(`Problem saving the session: ${e}`);
+  }
+}
+
+/**
+ * Read and decrypt the stored session.
+ * An expired or unreadable session is deleted.
+ * @returns the session or null if there is no valid session
+ */
+export function loadSession(): ISession | null {
+  if (!fs.existsSync(sessionFilePath())) {
+    return null; // EARLY RETURN
+  }
+  if (!safeStorage.isEncryptionAvailable()) {
+    log.warn('Encryption is not available. The session was not restored.');
+    return null; // EARLY RETURN
+  }
+  let session: ISession;
+  try {
+    const encrypted = fs.readFileSync(sessionFilePath());
+    session = JSON.parse(safeStorage.decryptString(encrypted));
+  } catch (e) {
+    log.error(`Problem restoring the saved session: ${e}`);
+    clearSession();
+    return null; // EARLY RETURN
+  }
+  if (!session.expires || new Date(session.expires).getTime() <= Date.now()) {
+    log.info('The saved session has expired. It was deleted.');
+    clearSession();
+    return null; // EARLY RETURN
+  }
+  log.info(
+    `Restored the saved session for ${session.name}, expires ${session.expires}`
+  );
+  return session;
+}
@@ -0,0 +1,27 @@
+/**
+ * A stand-in for the browser's Headers class, for tests.
+ *
+ * jsdom does not have fetch or Headers. The tests' fetch mocks use
+ * this class for the requests' and the responses' headers.
+ * Names are case insensitive, like the browser's.
+ */
+
+export default class TestHeaders {
+  private readonly values = new Map<string, string>();
+
+  constructor(init: Record<string, string> = {}) {
+    Object.keys(init).forEach((name) => this.set(name, init[name]));
+  }
+
+  get(name: string): string | null {
+    return this.values.get(name.toLowerCase()) || null;
+  }
+
+  set(name: string, value: string) {
+    this.values.set(name.toLowerCase(), value);
+  }
+
+  forEach(callback: (value: string, name: string) => void) {
+    this.values.forEach(callback);
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * The system tray icon.
+ *
+ * Main process functions. The icon's tooltip and menu show the
+ * logged in user, the account and the time until the session
+ * expires. The menu's Login, Logout and Switch account items send
+ * auth commands to the renderer. See auth-state.ts
+ */
+
+import { Menu, MenuItemConstructorOptions, Tray } from 'electron';
+import {
+  AuthState,
+  AuthStateAccount,
+  AuthCommand,
+  authState,
+  onAuthStateChange,
+  minutesLeft,
+} from './auth-state';
+
+export interface TrayActions {
+  showWindow(): void;
+  sendCommand(command: AuthCommand): void;
+  quit(): void;
+}
+
+// The expiry countdown is updated every minute
+const refreshInterval = 60 * 1000;
+
+let tray: Tray | null = null;
+let actions: TrayActions | null = null;
+
+function accountLabel(account: AuthStateAccount): string {
+  return `${account.accountName} (${account.externalAccountId})`;
+}
+
+/**
+ * The lines of the tray's tooltip. They are also the first
+ * items of its menu.
+ * @param now for tests
+ */
+export function statusLines(
+  state: AuthState,
+  now: Date = new Date()
+): string[] {
+  if (state.status === 'loading') {
+    return ['Loading...']; // EARLY RETURN
+  }
+  if (state.status === 'logging-in') {
+    return ['Logging in via your browser...']; // EARLY RETURN
+  }
+  if (state.status === 'logged-out') {
+    return ['Not logged in']; // EARLY RETURN
+  }
+  const lines = [state.name || state.email || 'Logged in'];
+  const account = state.accounts.find(
+    (acc) => acc.accountId === state.accountId
+  );
+  if (account) {
+    lines.push(accountLabel(account));
+  }
+  const minutes = minutesLeft(state, now);
+  if (minutes !== null) {
+    lines.push(`Session expires in ${minutes} min`);
+  }
+  return lines;
+}
+
+function menuTemplate(
+  state: AuthState,
+  trayActions: TrayActions
+): MenuItemConstructorOptions[] {
+  const loggedIn = state.status === 'logged-in';
+  const switchable = loggedIn && state.accounts.length > 1;
+  return [
+    ...statusLines(state).map((label) => ({ label, enabled: false })),
+    { type: 'separator' },
+    {
+      label: 'Login',
+      enabled: state.status === 'logged-out',
+      click: () => {
+        trayActions.showWindow();
+        trayActions.sendCommand({ name: 'login' });
+      },
+    },
+    {
+      label: 'Logout',
+      enabled: loggedIn,
+      click: () => trayActions.sendCommand({ name: 'logout' }),
+    },
+    {
+      label: 'Switch account',
+      enabled: switchable,
+      submenu: switchable
+        ? state.accounts.map((account) => ({
+            label: accountLabel(account),
+            type: 'radio',
+            checked: account.accountId === state.accountId,
+            click: () =>
+              trayActions.sendCommand({
+                name: 'switch-account',
+                accountId: account.accountId,
+              }),
+          }))
+        : undefined,
+    },
+    { type: 'separator' },
+    { label: 'Show window', click: () => trayActions.showWindow() },
+    { label: 'Quit', click: () => trayActions.quit() },
+  ];
+}
+
+function updateTray(state: AuthState) {
+  if (!tray || !actions) {
+    return; // EARLY RETURN
+  }
+  tray.setToolTip(statusLines(state).join('\n'));
+  tray.setContextMenu(Menu.buildFromTemplate(menuTemplate(state, actions)));
+}
+
+/**
+ * Create the tray icon. It is updated when the auth state changes.
+ * @param iconPath a small image, eg assets/icons/16x16.png
+ */
+export function createTray(iconPath: string, trayActions: TrayActions) {
+  if (tray) {
+    return; // EARLY RETURN
+  }
+  actions = trayActions;
+  tray = new Tray(iconPath);
+  tray.on('double-click', () => trayActions.showWindow());
+  onAuthStateChange(updateTray);
+  setInterval(() => updateTray(authState()), refreshInterval);
+  updateTray(authState());
+}
+
+export function hasTray(): boolean {
+  return tray !== null;
+}
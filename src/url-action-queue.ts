@@ -0,0 +1,44 @@
+/**
+ * A queue for the url actions that are sent to the renderer.
+ *
+ * Main process functions. A url can arrive before the renderer
+ * can receive it: on a cold launch from a protocol url, or from
+ * macOS open-url before the app is ready. The actions are kept
+ * until the renderer reports that it is listening, then sent in
+ * the order they arrived. Actions that waited too long are dropped.
+ */
+
+import { WebContents } from 'electron';
+import { appConfig } from './app-config';
+import { URLActionType } from './parse-app-url';
+import ReadyQueue from './ready-queue';
+
+const queue = new ReadyQueue<URLActionType>(
+  'url-action',
+  'url action',
+  () => appConfig().urlActionMaxAge * 1000
+);
+
+/**
+ * Send an action to the renderer now or when it is ready
+ * @param action the url action
+ */
+export function sendUrlAction(action: URLActionType) {
+  queue.send(action);
+}
+
+/**
+ * The renderer is listening for url actions
+ * @param webContents the renderer
+ */
+export function urlActionsReady(webContents: WebContents) {
+  queue.ready(webContents);
+}
+
+/**
+ * The renderer is (re)loading or closed. Keep the actions
+ * until it is ready again.
+ */
+export function urlActionsNotReady() {
+  queue.notReady();
+}
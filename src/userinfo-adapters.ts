@@ -0,0 +1,163 @@
+/**
+ * Userinfo adapters.
+ *
+ * Each IdP has its own format for the information about the user.
+ * An adapter turns the IdP's userinfo response and/or the
+ * id_token's claims into the user's details for the App.
+ * The IdP profile's userInfoAdapter setting chooses the adapter.
+ *
+ * Additional adapters can be added with registerUserInfoAdapter.
+ * Their names must be added to the userInfoAdapter setting's
+ * values in app-config.ts.
+ */
+import { UserAccount } from './accounts';
+import { IdTokenClaims } from './id-token';
+
+export type Claims = { [claim: string]: unknown };
+
+/**
+ * The user's details for the App
+ */
+export interface UserDetails {
+  readonly name: string | null;
+  readonly email: string | null;
+  readonly accounts: UserAccount[];
+}
+
+export interface IUserInfoAdapter {
+  readonly name: string;
+  // true if the adapter uses the IdP's userinfo response
+  readonly usesUserInfo: boolean;
+  /**
+   * @param userInfo the userinfo response. null if not usesUserInfo
+   * @param idTokenClaims the id_token's claims. null if not OIDC mode
+   * @throws Error if the information can't be mapped
+   */
+  toUserDetails(
+    userInfo: Claims | null,
+    idTokenClaims: IdTokenClaims | null
+  ): UserDetails;
+}
+
+function stringClaim(claims: Claims, claim: string): string | null {
+  const value = claims[claim];
+  return typeof value === 'string' && value ? value : null;
+}
+
+/**
+ * The user's name from the standard OIDC claims
+ * See https://openid.net/specs/openid-connect-core-1_0.html#StandardClaims
+ */
+function claimsToDetails(claims: Claims): UserDetails {
+  const givenName = stringClaim(claims, 'given_name');
+  const familyName = stringClaim(claims, 'family_name');
+  const fullName =
+    givenName || familyName
+      ? [givenName, familyName].filter((n) => n).join(' ')
+      : null;
+  return {
+    name:
+      stringClaim(claims, 'name') ||
+      fullName ||
+      stringClaim(claims, 'preferred_username'),
+    email: stringClaim(claims, 'email'),
+    accounts: [],
+  };
+}
+
+/**
+ * The DocuSign userinfo response.
+ * See https://developers.docusign.com/platform/auth/reference/user-info/
+ */
+const docuSignAdapter: IUserInfoAdapter = {
+  name: 'docusign',
+  usesUserInfo: true,
+  toUserDetails(userInfo) {
+    type Account = {
+      account_id: string;
+      account_name: string;
+      base_uri: string;
+      is_default: boolean;
+    };
+    if (!userInfo || !Array.isArray(userInfo.accounts)) {
+      throw new Error('The userinfo response has no accounts');
+    }
+    return {
+      ...claimsToDetails(userInfo),
+      accounts: (userInfo.accounts as Account[]).map((acc) => ({
+        accountId: acc.account_id,
+        externalAccountId: acc.account_id.slice(-10),
+        accountName: acc.account_name,
+        baseUri: acc.base_uri,
+        isDefault: !!acc.is_default,
+      })),
+    };
+  },
+};
+
+/**
+ * Any OIDC IdP's userinfo response
+ */
+const oidcUserInfoAdapter: IUserInfoAdapter = {
+  name: 'oidc-userinfo',
+  usesUserInfo: true,
+  toUserDetails(userInfo) {
+    if (!userInfo) {
+      throw new Error('No userinfo response');
+    }
+    return claimsToDetails(userInfo);
+  },
+};
+
+/**
+ * Any OIDC IdP's id_token. The userinfo endpoint is not called.
+ */
+const oidcIdTokenAdapter: IUserInfoAdapter = {
+  name: 'oidc-id-token',
+  usesUserInfo: false,
+  toUserDetails(_userInfo, idTokenClaims) {
+    if (!idTokenClaims) {
+      throw new Error('No id_token. Set oidcMode to on');
+    }
+    return claimsToDetails(idTokenClaims);
+  },
+};
+
+const adapters = new Map<string, IUserInfoAdapter>(
+  [docuSignAdapter, oidcUserInfoAdapter, oidcIdTokenAdapter].map((a) => [
+    a.name,
+    a,
+  ])
+);
+
+/**
+ * Add an adapter for another IdP
+ * @param adapter the adapter. Its name is used for the userInfoAdapter setting
+ */
+export function registerUserInfoAdapter(adapter: IUserInfoAdapter) {
+  adapters.set(adapter.name, adapter);
+}
+
+/**
+ * The names of the available adapters
+ */
+export function userInfoAdapterNames(): string[] {
+  return Array.from(adapters.keys());
+}
+
+/**
+ * Find an adapter
+ * @param name the adapter's name. If not set, the DocuSign
+ *             adapter is used
+ * @throws Error if there is no adapter with the name
+ */
+export function userInfoAdapter(name: string | undefined): IUserInfoAdapter {
+  if (!name) {
+    return docuSignAdapter; // EARLY RETURN
+  }
+  const adapter = adapters.get(name);
+  if (!adapter) {
+    throw new Error(`There is no ${name} userinfo adapter`);
+  }
+  return adapter;
+}